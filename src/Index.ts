@@ -11,6 +11,22 @@ import Status from './StatusServer/status.js';
 import Downloader from './utils/Downloader.js';
 import { MemoryManager, StringBuilder, BufferedFileReader } from './utils/MemoryManager.js';
 import PerformanceMonitor from './utils/PerformanceMonitor.js';
+import MetadataCache from './utils/MetadataCache.js';
+import InstanceManager from './Instance/InstanceManager.js';
+import SessionManager from './Instance/SessionManager.js';
+import PlaytimeHistory from './Instance/PlaytimeHistory.js';
+import OptionsFile from './Instance/OptionsFile.js';
+import ResourcePackManager from './Instance/ResourcePackManager.js';
+import ShaderPackManager from './Instance/ShaderPackManager.js';
+import ServerList from './Instance/ServerList.js';
+import WorldManager from './Instance/WorldManager.js';
+import WorldBackupManager from './Instance/WorldBackupManager.js';
+import CrashAnalyzer from './Minecraft/Minecraft-Crash.js';
+import GameLogParser, { LogBuffer } from './Minecraft/Minecraft-Log.js';
+import * as Nbt from './utils/Nbt.js';
+import FileStore from './utils/FileStore.js';
+import MemorySizer from './Minecraft/Minecraft-Memory.js';
+import { getJvmPresets, resolveJvmPreset, mergeJvmArguments } from './Minecraft/Minecraft-JvmPresets.js';
 
 export {
     AZauth as AZauth,
@@ -22,5 +38,40 @@ export {
     MemoryManager as MemoryManager,
     StringBuilder as StringBuilder,
     BufferedFileReader as BufferedFileReader,
-    PerformanceMonitor as PerformanceMonitor
-};
\ No newline at end of file
+    PerformanceMonitor as PerformanceMonitor,
+    MetadataCache as MetadataCache,
+    InstanceManager as InstanceManager,
+    SessionManager as SessionManager,
+    PlaytimeHistory as PlaytimeHistory,
+    OptionsFile as OptionsFile,
+    ResourcePackManager as ResourcePackManager,
+    ShaderPackManager as ShaderPackManager,
+    ServerList as ServerList,
+    WorldManager as WorldManager,
+    WorldBackupManager as WorldBackupManager,
+    CrashAnalyzer as CrashAnalyzer,
+    GameLogParser as GameLogParser,
+    LogBuffer as LogBuffer,
+    MemorySizer as MemorySizer,
+    Nbt as Nbt,
+    FileStore as FileStore,
+    getJvmPresets as getJvmPresets,
+    resolveJvmPreset as resolveJvmPreset,
+    mergeJvmArguments as mergeJvmArguments
+};
+export type { LaunchEvents, LaunchCloseEvent, LaunchCompleteEvent, LaunchCancelledEvent, LaunchErrorEvent, LaunchEventRecord, LaunchPhase, LaunchResult } from './Launch.js';
+export type { DownloaderEvents } from './utils/Downloader.js';
+export type { LoaderEvents } from './Minecraft-Loader/index.js';
+export type { MinecraftLoaderEvents } from './Minecraft/Minecraft-Loader.js';
+export type { JavaDownloaderEvents } from './Minecraft/Minecraft-Java.js';
+export type { TypedEventEmitter } from './utils/TypedEmitter.js';
+export type { MemoryDecision, MemorySizingInput } from './Minecraft/Minecraft-Memory.js';
+export type { JvmPreset, JvmPresetName, JvmPresetResolution } from './Minecraft/Minecraft-JvmPresets.js';
+export type { OptionValue } from './Instance/OptionsFile.js';
+export type { ResourcePack, ResourcePackInstallOptions, PackCompatibility, PackFormatRange, PackOverlay } from './Instance/ResourcePackManager.js';
+export type { ShaderPack, ShaderOption, ShaderSelection, ShaderLoader, ShaderPackInstallOptions } from './Instance/ShaderPackManager.js';
+export type { ServerEntry, ServerEntryInput } from './Instance/ServerList.js';
+export type { WorldSummary, GameMode, Difficulty } from './Instance/WorldManager.js';
+export type { WorldBackup, WorldBackupEvents, BackupReason, BackupRetention, BackupOptions, RestoreOptions, BackupVerification } from './Instance/WorldBackupManager.js';
+export type { NbtCompound, NbtCompression, NbtFile, NbtList, NbtTag, NbtType } from './utils/Nbt.js';
+export type { FileStoreGcOptions, FileStoreGcResult, FileStoreStats, StorePlacement } from './utils/FileStore.js';
@@ -0,0 +1,283 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { LaunchOPTS } from '../Launch.js';
+import type { JvmPresetName } from '../Minecraft/Minecraft-JvmPresets.js';
+import type { OptionValue } from './OptionsFile.js';
+import type { BackupRetention } from './WorldBackupManager.js';
+import { ConfigurationError, FileSystemError, ErrorCodes } from '../utils/Errors.js';
+
+/**
+ * Settings persisted in `instances/<id>/instance.json`.
+ */
+export interface InstanceConfig {
+	id: string;                  // Directory name under `instances/`
+	name: string;                // Display name
+	version: string;             // Minecraft version (e.g. "1.20.4" or "latest_release")
+	loader: {
+		type?: string;            // "forge", "neoforge", "fabric", "legacyfabric" or "quilt"
+		build?: string;           // "latest", "recommended" or an actual build
+		enable: boolean;
+	};
+	memory: {
+		min?: string;             // e.g. "1G", or "auto"
+		max?: string;             // e.g. "4G", or "auto"
+		cap?: string;             // Upper limit for an "auto" max (e.g. "8G")
+	};
+	java: {
+		path?: string;            // Absolute path to a Java executable
+		version?: string;         // Forced Java version (e.g. "21")
+		type?: string;            // "jre" or "jdk"
+	};
+	JVM_ARGS: string[];
+	GAME_ARGS: string[];
+	jvmPreset?: JvmPresetName;   // "vanilla", "aikar", "zgc-generational", "shenandoah" or "minimal"
+	defaultOptions?: Record<string, OptionValue>; // options.txt template applied on first launch
+	worldBackups?: {             // Backups of the worlds before a version or loader change
+		enabled?: boolean;
+		retention?: BackupRetention;
+	};
+	wrapper?: string[];          // e.g. ["gamemoderun"]
+	env?: Record<string, string>;
+	envUnset?: string[];
+	createdAt: string;           // ISO date
+	updatedAt: string;           // ISO date
+}
+
+/**
+ * Fields accepted when creating or updating an instance.
+ */
+export type InstanceSettings = Partial<Omit<InstanceConfig, 'id' | 'createdAt' | 'updatedAt'>>;
+
+const CONFIG_FILE = 'instance.json';
+
+/**
+ * Creates, lists, renames, clones and deletes the instances stored
+ * under `<root>/instances`, each with its own `instance.json`.
+ */
+export default class InstanceManager {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Returns the absolute directory of an instance.
+	 */
+	public getPath(id: string): string {
+		return `${this.root}/instances/${id}`;
+	}
+
+	/**
+	 * Lists every instance that has an `instance.json`, sorted by display name.
+	 */
+	public async list(): Promise<InstanceConfig[]> {
+		const directory = `${this.root}/instances`;
+		if (!fs.existsSync(directory)) return [];
+
+		const instances: InstanceConfig[] = [];
+		for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+			if (!entry.isDirectory()) continue;
+			const config = this.read(entry.name);
+			if (config) instances.push(config);
+		}
+		return instances.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Reads an instance's saved settings.
+	 *
+	 * @returns The instance config, or `null` if the instance has no `instance.json`
+	 */
+	public async get(id: string): Promise<InstanceConfig | null> {
+		this.validateId(id);
+		return this.read(id);
+	}
+
+	/**
+	 * Creates a new instance directory and its `instance.json`.
+	 *
+	 * @param id       Directory name for the instance (letters, digits, `.`, `_` and `-`)
+	 * @param settings Initial settings. `version` defaults to `"latest_release"`.
+	 */
+	public async create(id: string, settings: InstanceSettings = {}): Promise<InstanceConfig> {
+		this.validateId(id);
+		if (fs.existsSync(this.getPath(id))) {
+			throw new ConfigurationError(`Instance ${id} already exists`, 'id', id, ErrorCodes.INSTANCE_ALREADY_EXISTS);
+		}
+
+		const now = new Date().toISOString();
+		const config: InstanceConfig = {
+			id,
+			name: settings.name || id,
+			version: settings.version || 'latest_release',
+			loader: {
+				type: settings.loader?.type,
+				build: settings.loader?.build || 'latest',
+				enable: settings.loader?.enable ?? !!settings.loader?.type
+			},
+			memory: { ...settings.memory },
+			java: { ...settings.java },
+			JVM_ARGS: settings.JVM_ARGS || [],
+			GAME_ARGS: settings.GAME_ARGS || [],
+			jvmPreset: settings.jvmPreset,
+			defaultOptions: settings.defaultOptions,
+			worldBackups: settings.worldBackups,
+			wrapper: settings.wrapper,
+			env: settings.env,
+			envUnset: settings.envUnset,
+			createdAt: now,
+			updatedAt: now
+		};
+
+		fs.mkdirSync(this.getPath(id), { recursive: true });
+		this.write(config);
+		return config;
+	}
+
+	/**
+	 * Updates an instance's saved settings. Nested objects (`loader`, `memory`, `java`)
+	 * are merged with the existing values.
+	 */
+	public async update(id: string, settings: InstanceSettings): Promise<InstanceConfig> {
+		const current = await this.require(id);
+		const config: InstanceConfig = {
+			...current,
+			...settings,
+			loader: { ...current.loader, ...settings.loader },
+			memory: { ...current.memory, ...settings.memory },
+			java: { ...current.java, ...settings.java },
+			id,
+			createdAt: current.createdAt,
+			updatedAt: new Date().toISOString()
+		};
+		this.write(config);
+		return config;
+	}
+
+	/**
+	 * Moves an instance to a new directory name, keeping all of its game data.
+	 */
+	public async rename(id: string, newId: string): Promise<InstanceConfig> {
+		const current = await this.require(id);
+		this.validateId(newId);
+		if (fs.existsSync(this.getPath(newId))) {
+			throw new ConfigurationError(`Instance ${newId} already exists`, 'id', newId, ErrorCodes.INSTANCE_ALREADY_EXISTS);
+		}
+
+		try {
+			fs.renameSync(this.getPath(id), this.getPath(newId));
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to rename instance ${id}: ${err.message}`, this.getPath(id), 'rename');
+		}
+
+		const config: InstanceConfig = { ...current, id: newId, updatedAt: new Date().toISOString() };
+		this.write(config);
+		return config;
+	}
+
+	/**
+	 * Copies an instance, including its worlds, mods and options, to a new directory.
+	 *
+	 * @param name Display name of the copy. Defaults to the new id.
+	 */
+	public async clone(id: string, newId: string, name?: string): Promise<InstanceConfig> {
+		const current = await this.require(id);
+		this.validateId(newId);
+		if (fs.existsSync(this.getPath(newId))) {
+			throw new ConfigurationError(`Instance ${newId} already exists`, 'id', newId, ErrorCodes.INSTANCE_ALREADY_EXISTS);
+		}
+
+		try {
+			fs.cpSync(this.getPath(id), this.getPath(newId), { recursive: true });
+		} catch (err: any) {
+			fs.rmSync(this.getPath(newId), { recursive: true, force: true });
+			throw new FileSystemError(`Failed to clone instance ${id}: ${err.message}`, this.getPath(id), 'copy');
+		}
+
+		const now = new Date().toISOString();
+		const config: InstanceConfig = { ...current, id: newId, name: name || newId, createdAt: now, updatedAt: now };
+		this.write(config);
+		return config;
+	}
+
+	/**
+	 * Deletes an instance directory and everything in it.
+	 */
+	public async delete(id: string): Promise<void> {
+		await this.require(id);
+		try {
+			fs.rmSync(this.getPath(id), { recursive: true, force: true });
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to delete instance ${id}: ${err.message}`, this.getPath(id), 'delete');
+		}
+	}
+
+	/**
+	 * Converts saved instance settings into launch options.
+	 */
+	public static toLaunchOptions(config: InstanceConfig): Partial<LaunchOPTS> {
+		const options: Partial<LaunchOPTS> = {
+			version: config.version,
+			loader: { ...config.loader },
+			JVM_ARGS: [...config.JVM_ARGS],
+			GAME_ARGS: [...config.GAME_ARGS]
+		};
+		if (config.memory.min || config.memory.max) {
+			options.memory = { min: config.memory.min || '1G', max: config.memory.max || '2G', cap: config.memory.cap };
+		}
+		if (config.jvmPreset) options.jvmPreset = config.jvmPreset;
+		if (config.defaultOptions) options.defaultOptions = { ...config.defaultOptions };
+		if (config.worldBackups) options.worldBackups = { ...config.worldBackups };
+		if (config.wrapper?.length) options.wrapper = [...config.wrapper];
+		if (config.env) options.env = { ...config.env };
+		if (config.envUnset) options.envUnset = [...config.envUnset];
+		if (config.java.path || config.java.version || config.java.type) {
+			options.java = { path: config.java.path, version: config.java.version, type: config.java.type || 'jre' };
+		}
+		return options;
+	}
+
+	private async require(id: string): Promise<InstanceConfig> {
+		const config = await this.get(id);
+		if (!config) {
+			throw new ConfigurationError(`Instance ${id} not found`, 'id', id, ErrorCodes.INSTANCE_NOT_FOUND);
+		}
+		return config;
+	}
+
+	private read(id: string): InstanceConfig | null {
+		const file = `${this.getPath(id)}/${CONFIG_FILE}`;
+		if (!fs.existsSync(file)) return null;
+		try {
+			return JSON.parse(fs.readFileSync(file, 'utf-8'));
+		} catch (err: any) {
+			console.warn(`[InstanceManager] Failed to read ${file}: ${err.message}`);
+			return null;
+		}
+	}
+
+	private write(config: InstanceConfig): void {
+		const file = `${this.getPath(config.id)}/${CONFIG_FILE}`;
+		try {
+			fs.writeFileSync(`${file}.tmp`, JSON.stringify(config, null, 4));
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to write ${file}: ${err.message}`, file, 'write');
+		}
+	}
+
+	private validateId(id: string): void {
+		if (!id || !/^[\w.-]+$/.test(id) || id === '.' || id === '..') {
+			throw new ConfigurationError(`Invalid instance id "${id}"`, 'id', id, ErrorCodes.INVALID_PATH);
+		}
+	}
+}
@@ -0,0 +1,262 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FileSystemError } from '../utils/Errors.js';
+
+/**
+ * A value that can be written to `options.txt`. Lists are stored as JSON arrays
+ * (e.g. `resourcePacks:["vanilla","file/pack.zip"]`).
+ */
+export type OptionValue = string | number | boolean | string[];
+
+/**
+ * One line of `options.txt`. Lines that are not `key:value` pairs are kept as they are.
+ */
+type OptionLine = { key: string, value: string } | { raw: string };
+
+/**
+ * Data version of 1.13, the first release whose options.txt uses LWJGL 3
+ * key names (`key.keyboard.w`) and `file/` resource pack ids.
+ */
+const FLATTENING_DATA_VERSION = 1519;
+
+/**
+ * Data version of 1.11, which switched language codes to lower case.
+ */
+const LOWERCASE_LANGUAGE_DATA_VERSION = 819;
+
+/**
+ * Reads and writes Minecraft's `options.txt`. Every key is kept, including the ones this
+ * class knows nothing about, and saving preserves the original order and line endings.
+ *
+ *     const options = await OptionsFile.load(`${gameDirectory}/options.txt`);
+ *     options.set('fov', 90);
+ *     options.setKeybind('key.jump', 'key.keyboard.space');
+ *     await options.save();
+ */
+export default class OptionsFile {
+	public readonly file: string | null;
+	private lines: OptionLine[] = [];
+	private eol: string = '\n';
+
+	/**
+	 * @param file    Absolute path to `options.txt`, used by `save()`
+	 * @param content Contents of the file; an empty file if omitted
+	 */
+	constructor(file: string | null = null, content: string = '') {
+		this.file = file ? path.resolve(file).replace(/\\/g, '/') : null;
+		if (content.includes('\r\n')) this.eol = '\r\n';
+
+		for (const line of content.split(/\r?\n/)) {
+			if (line.length === 0) continue;
+			const separator = line.indexOf(':');
+			this.lines.push(separator > 0
+				? { key: line.slice(0, separator), value: line.slice(separator + 1) }
+				: { raw: line });
+		}
+	}
+
+	/**
+	 * Reads an `options.txt`. A missing file gives an empty `OptionsFile` that `save()` creates.
+	 */
+	public static async load(file: string): Promise<OptionsFile> {
+		if (!fs.existsSync(file)) return new OptionsFile(file);
+		try {
+			return new OptionsFile(file, await fs.promises.readFile(file, 'utf-8'));
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to read ${file}: ${err.message}`, file, 'read');
+		}
+	}
+
+	/**
+	 * Data version of the game that last wrote the file, or `null` for files
+	 * written before 1.9, which did not record it.
+	 */
+	public get dataVersion(): number | null {
+		const version = parseInt(this.get('version'), 10);
+		return Number.isNaN(version) ? null : version;
+	}
+
+	/**
+	 * `true` if the file uses the pre-1.13 format: LWJGL 2 key codes (`key_key.jump:57`)
+	 * and resource packs listed by file name instead of `file/<name>`. A file with neither a
+	 * version nor key bindings, such as a template of defaults, is not legacy.
+	 */
+	public get legacy(): boolean {
+		const version = this.dataVersion;
+		if (version !== null) return version < FLATTENING_DATA_VERSION;
+		// No version recorded: look at how keys are stored
+		const keybind = this.entries().find(([key]) => key.startsWith('key_'));
+		return !!keybind && /^-?\d+$/.test(keybind[1]);
+	}
+
+	public has(key: string): boolean {
+		return this.find(key) !== undefined;
+	}
+
+	/**
+	 * Returns the raw value of a key, as written in the file.
+	 */
+	public get(key: string): string | undefined {
+		return this.find(key)?.value;
+	}
+
+	/**
+	 * Returns a string value. Quoted values written by 1.19 and newer (e.g. `soundDevice:""`) are unquoted.
+	 */
+	public getString(key: string): string | undefined {
+		const value = this.get(key);
+		if (value === undefined || !/^".*"$/.test(value)) return value;
+		try {
+			return JSON.parse(value);
+		} catch {
+			return value;
+		}
+	}
+
+	public getNumber(key: string): number | undefined {
+		const value = Number(this.get(key));
+		return this.has(key) && !Number.isNaN(value) ? value : undefined;
+	}
+
+	public getBoolean(key: string): boolean | undefined {
+		const value = this.get(key);
+		return value === 'true' ? true : value === 'false' ? false : undefined;
+	}
+
+	/**
+	 * Returns a list value such as `resourcePacks` or `incompatibleResourcePacks`.
+	 */
+	public getList(key: string): string[] {
+		const value = this.get(key);
+		if (!value) return [];
+		try {
+			const list = JSON.parse(value);
+			return Array.isArray(list) ? list.map(String) : [];
+		} catch {
+			console.warn(`[OptionsFile] Failed to parse ${key}: ${value}`);
+			return [];
+		}
+	}
+
+	/**
+	 * Sets a key, keeping its position if it already exists and appending it otherwise.
+	 * Strings keep the quoting style of the value they replace.
+	 */
+	public set(key: string, value: OptionValue): this {
+		let text: string;
+		if (Array.isArray(value)) text = JSON.stringify(value);
+		else if (typeof value === 'string' && /^".*"$/.test(this.get(key) ?? '')) text = JSON.stringify(value);
+		else text = String(value);
+
+		const line = this.find(key);
+		if (line) line.value = text;
+		else this.lines.push({ key, value: text });
+		return this;
+	}
+
+	/**
+	 * Sets several keys at once.
+	 */
+	public setAll(values: Record<string, OptionValue>): this {
+		for (const [key, value] of Object.entries(values)) this.set(key, value);
+		return this;
+	}
+
+	public delete(key: string): boolean {
+		const index = this.lines.findIndex(line => 'key' in line && line.key === key);
+		if (index === -1) return false;
+		this.lines.splice(index, 1);
+		return true;
+	}
+
+	public keys(): string[] {
+		return this.entries().map(([key]) => key);
+	}
+
+	/**
+	 * Returns every `[key, raw value]` pair, in file order.
+	 */
+	public entries(): Array<[string, string]> {
+		return this.lines.filter((line): line is { key: string, value: string } => 'key' in line)
+			.map(line => [line.key, line.value]);
+	}
+
+	/**
+	 * Game language, e.g. `"en_us"`. Versions before 1.11 write `"en_US"`.
+	 */
+	public get language(): string | undefined {
+		return this.getString('lang');
+	}
+
+	public set language(language: string) {
+		const version = this.dataVersion;
+		const uppercase = version !== null ? version < LOWERCASE_LANGUAGE_DATA_VERSION : this.legacy;
+		this.set('lang', uppercase ? language.replace(/_([a-z]+)$/i, (_, region) => `_${region.toUpperCase()}`) : language.toLowerCase());
+	}
+
+	/**
+	 * Returns the key bound to an action, e.g. `getKeybind('key.jump')` → `"key.keyboard.space"`
+	 * (or `"57"` in pre-1.13 files).
+	 */
+	public getKeybind(action: string): string | undefined {
+		return this.get(`key_${action}`);
+	}
+
+	public setKeybind(action: string, key: string | number): this {
+		return this.set(`key_${action}`, key);
+	}
+
+	/**
+	 * Returns every key binding, by action.
+	 */
+	public getKeybinds(): Record<string, string> {
+		const keybinds: Record<string, string> = {};
+		for (const [key, value] of this.entries()) {
+			if (key.startsWith('key_')) keybinds[key.slice(4)] = value;
+		}
+		return keybinds;
+	}
+
+	/**
+	 * Returns the volume (0 to 1) of a sound category such as `"master"`, `"music"` or `"hostile"`.
+	 */
+	public getSoundVolume(category: string): number | undefined {
+		return this.getNumber(`soundCategory_${category}`);
+	}
+
+	public setSoundVolume(category: string, volume: number): this {
+		return this.set(`soundCategory_${category}`, Math.min(1, Math.max(0, volume)));
+	}
+
+	/**
+	 * Serializes the options, in their original order.
+	 */
+	public toString(): string {
+		return this.lines.map(line => 'key' in line ? `${line.key}:${line.value}` : line.raw).join(this.eol) + this.eol;
+	}
+
+	/**
+	 * Writes the options back to disk.
+	 *
+	 * @param file Where to write; defaults to the file the options were loaded from
+	 */
+	public async save(file: string | null = this.file): Promise<void> {
+		if (!file) throw new FileSystemError('No file to save options.txt to', '', 'write');
+		try {
+			await fs.promises.mkdir(path.dirname(file), { recursive: true });
+			await fs.promises.writeFile(`${file}.tmp`, this.toString());
+			await fs.promises.rename(`${file}.tmp`, file);
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to write ${file}: ${err.message}`, file, 'write');
+		}
+	}
+
+	private find(key: string): { key: string, value: string } | undefined {
+		return this.lines.find((line): line is { key: string, value: string } => 'key' in line && line.key === key);
+	}
+}
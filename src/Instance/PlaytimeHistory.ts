@@ -0,0 +1,143 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FileSystemError } from '../utils/Errors.js';
+
+/**
+ * One finished game session.
+ */
+export interface PlaySession {
+	startTime: string;           // ISO date the game was started
+	endTime: string;             // ISO date the game exited
+	duration: number;            // Milliseconds
+	account: string | null;      // Player name
+	version: string;             // Minecraft version
+	loader: {
+		type: string;
+		build: string;           // Installed build; the profile id for "latest" or "recommended"
+	} | null;
+	exitCode: number | null;
+	crashed: boolean;
+}
+
+/**
+ * Totals for one instance (or the root directory).
+ */
+export interface PlaytimeSummary {
+	totalPlaytime: number;       // Milliseconds, across every recorded session
+	sessionCount: number;
+	lastPlayed: string | null;   // ISO end date of the latest session
+}
+
+/**
+ * Contents of `history.json`. Totals are kept separately so they survive
+ * old sessions being dropped from the list.
+ */
+interface HistoryFile {
+	totalPlaytime: number;
+	sessionCount: number;
+	sessions: PlaySession[];
+}
+
+const HISTORY_FILE = 'history.json';
+const MAX_SESSIONS = 500;
+
+/**
+ * Keeps a per-instance history of game sessions in `history.json`, and
+ * answers "total playtime", "last played" and "recent sessions".
+ */
+export default class PlaytimeHistory {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Appends a finished session to an instance's history.
+	 *
+	 * @param instance Instance id, or `null` for games run from the root directory
+	 */
+	public async record(instance: string | null, session: PlaySession): Promise<void> {
+		const history = this.read(instance);
+		history.sessions.push(session);
+		history.totalPlaytime += session.duration;
+		history.sessionCount++;
+		if (history.sessions.length > MAX_SESSIONS) {
+			history.sessions.splice(0, history.sessions.length - MAX_SESSIONS);
+		}
+		this.write(instance, history);
+	}
+
+	/**
+	 * Returns the most recent sessions, newest first.
+	 */
+	public async getSessions(instance: string | null, limit: number = 20): Promise<PlaySession[]> {
+		return this.read(instance).sessions.slice(-limit).reverse();
+	}
+
+	/**
+	 * Returns the total time played, in milliseconds.
+	 */
+	public async getTotalPlaytime(instance: string | null): Promise<number> {
+		return this.read(instance).totalPlaytime;
+	}
+
+	/**
+	 * Returns when the instance was last played, or `null` if it never was.
+	 */
+	public async getLastPlayed(instance: string | null): Promise<Date | null> {
+		const { sessions } = this.read(instance);
+		return sessions.length > 0 ? new Date(sessions[sessions.length - 1].endTime) : null;
+	}
+
+	/**
+	 * Returns total playtime, session count and last played date in one read.
+	 */
+	public async getSummary(instance: string | null): Promise<PlaytimeSummary> {
+		const history = this.read(instance);
+		return {
+			totalPlaytime: history.totalPlaytime,
+			sessionCount: history.sessionCount,
+			lastPlayed: history.sessions[history.sessions.length - 1]?.endTime ?? null
+		};
+	}
+
+	private getFile(instance: string | null): string {
+		const directory = instance ? `${this.root}/instances/${instance}` : this.root;
+		return `${directory}/${HISTORY_FILE}`;
+	}
+
+	private read(instance: string | null): HistoryFile {
+		const file = this.getFile(instance);
+		if (!fs.existsSync(file)) return { totalPlaytime: 0, sessionCount: 0, sessions: [] };
+		try {
+			const history: HistoryFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+			history.sessions ??= [];
+			history.totalPlaytime ??= history.sessions.reduce((total, session) => total + session.duration, 0);
+			history.sessionCount ??= history.sessions.length;
+			return history;
+		} catch (err: any) {
+			console.warn(`[PlaytimeHistory] Failed to read ${file}: ${err.message}`);
+			return { totalPlaytime: 0, sessionCount: 0, sessions: [] };
+		}
+	}
+
+	private write(instance: string | null, history: HistoryFile): void {
+		const file = this.getFile(instance);
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(`${file}.tmp`, JSON.stringify(history, null, 4));
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to write ${file}: ${err.message}`, file, 'write');
+		}
+	}
+}
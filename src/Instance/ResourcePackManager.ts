@@ -0,0 +1,418 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import Unzipper from '../utils/unzipper.js';
+import OptionsFile from './OptionsFile.js';
+import InstanceManager from './InstanceManager.js';
+import { FileSystemError, ErrorCodes } from '../utils/Errors.js';
+
+/**
+ * A range of pack formats, inclusive.
+ */
+export interface PackFormatRange {
+	min: number;
+	max: number;
+}
+
+/**
+ * An overlay directory applied on top of the pack for some pack formats.
+ */
+export interface PackOverlay {
+	directory: string;
+	formats: PackFormatRange | null;
+}
+
+/**
+ * How a pack's format relates to the instance's Minecraft version, like the
+ * in-game "made for an older/newer version" marker.
+ */
+export type PackCompatibility = 'compatible' | 'too_old' | 'too_new' | 'unknown';
+
+/**
+ * A resource pack in an instance's `resourcepacks` folder.
+ */
+export interface ResourcePack {
+	fileName: string;             // Name in `resourcepacks/` (a .zip file or a folder)
+	path: string;                 // Absolute path
+	directory: boolean;           // Unzipped pack
+	packFormat: number | null;    // `pack.pack_format` (or `min_format` in 1.21.9+ packs)
+	supportedFormats: PackFormatRange | null;
+	description: string;          // Plain text, formatting codes removed
+	icon: Buffer | null;          // Contents of `pack.png`
+	overlays: PackOverlay[];
+	enabled: boolean;
+	priority: number | null;      // 0 is the top pack in the game's menu; `null` when disabled
+	compatibility: PackCompatibility;
+	warning: string | null;       // Why the pack is incompatible, if it is
+}
+
+/**
+ * Options for ResourcePackManager.install().
+ */
+export interface ResourcePackInstallOptions {
+	fileName?: string;            // Name in `resourcepacks/`; defaults to the source's name
+	enable?: boolean;             // Also enable the pack, on top of the other packs
+	minecraftVersion?: string;    // Version to check the pack format against
+}
+
+const RESOURCE_PACKS_DIRECTORY = 'resourcepacks';
+
+/**
+ * First Minecraft version of each resource pack format, oldest first.
+ */
+const PACK_FORMATS: Array<[version: string, format: number]> = [
+	['1.6.1', 1], ['1.9.0', 2], ['1.11.0', 3], ['1.13.0', 4], ['1.15.0', 5], ['1.16.2', 6],
+	['1.17.0', 7], ['1.18.0', 8], ['1.19.0', 9], ['1.19.3', 12], ['1.19.4', 13], ['1.20.0', 15],
+	['1.20.2', 18], ['1.20.3', 22], ['1.20.5', 32], ['1.21.0', 34], ['1.21.2', 42], ['1.21.4', 46],
+	['1.21.5', 55], ['1.21.6', 63], ['1.21.7', 64], ['1.21.9', 69]
+];
+
+/**
+ * Installs, lists, enables, disables, reorders and removes the resource packs of an instance.
+ * Which packs are enabled, and in which order, is stored in the instance's `options.txt`.
+ */
+export default class ResourcePackManager {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Returns the resource pack format of a Minecraft version, or `null` for
+	 * snapshots and versions older than 1.6.1, which had no resource packs.
+	 */
+	public static getPackFormat(minecraftVersion: string): number | null {
+		const version = /^\d+\.\d+(\.\d+)?$/.test(minecraftVersion) ? semver.coerce(minecraftVersion) : null;
+		if (!version) return null;
+		let format: number | null = null;
+		for (const [first, packFormat] of PACK_FORMATS) {
+			if (semver.gte(version, first)) format = packFormat;
+		}
+		return format;
+	}
+
+	/**
+	 * Lists the packs in the instance's `resourcepacks` folder: enabled packs first, from
+	 * the top of the game's menu down, then the disabled ones by name.
+	 *
+	 * @param instance         Instance id, or `null` for the root directory
+	 * @param minecraftVersion Version to check pack formats against. Defaults to the instance's saved version.
+	 */
+	public async list(instance: string | null, minecraftVersion?: string): Promise<ResourcePack[]> {
+		const directory = this.getDirectory(instance);
+		if (!fs.existsSync(directory)) return [];
+
+		const enabled = this.getEnabled(await this.loadOptions(instance));
+		const format = await this.getFormat(instance, minecraftVersion);
+
+		const packs: ResourcePack[] = [];
+		for (const entry of fs.readdirSync(directory)) {
+			const pack = this.readPack(`${directory}/${entry}`, enabled, format);
+			if (pack) packs.push(pack);
+		}
+
+		return packs.sort((a, b) => {
+			if (a.enabled !== b.enabled) return a.enabled ? -1 : 1;
+			return a.enabled ? a.priority - b.priority : a.fileName.localeCompare(b.fileName);
+		});
+	}
+
+	/**
+	 * Returns one pack, or `null` if it is not installed.
+	 */
+	public async get(instance: string | null, fileName: string, minecraftVersion?: string): Promise<ResourcePack | null> {
+		if (!fileName || fileName !== path.basename(fileName)) return null;
+		const enabled = this.getEnabled(await this.loadOptions(instance));
+		return this.readPack(`${this.getDirectory(instance)}/${fileName}`, enabled, await this.getFormat(instance, minecraftVersion));
+	}
+
+	/**
+	 * Copies a pack (a .zip file or a folder containing `pack.mcmeta`) into the instance's
+	 * `resourcepacks` folder, replacing a pack with the same name.
+	 *
+	 * @param source Path to the pack
+	 */
+	public async install(instance: string | null, source: string, options: ResourcePackInstallOptions = {}): Promise<ResourcePack> {
+		if (!fs.existsSync(source)) {
+			throw new FileSystemError(`Resource pack ${source} not found`, source, 'read', false, ErrorCodes.FILE_NOT_FOUND);
+		}
+		const fileName = options.fileName || path.basename(source);
+		const target = `${this.getDirectory(instance)}/${fileName}`;
+		if (path.resolve(source) !== path.resolve(target)) {
+			try {
+				fs.mkdirSync(this.getDirectory(instance), { recursive: true });
+				fs.rmSync(target, { recursive: true, force: true });
+				fs.cpSync(source, target, { recursive: true });
+			} catch (err: any) {
+				throw new FileSystemError(`Failed to install resource pack ${fileName}: ${err.message}`, target, 'copy');
+			}
+		}
+
+		if (options.enable) await this.enable(instance, fileName, options.minecraftVersion);
+		return this.get(instance, fileName, options.minecraftVersion);
+	}
+
+	/**
+	 * Enables a pack, on top of the enabled ones. Packs made for another version are
+	 * also added to `incompatibleResourcePacks`, as the game does when the player confirms them.
+	 *
+	 * @param minecraftVersion Version to check the pack format against. Defaults to the instance's saved version.
+	 */
+	public async enable(instance: string | null, fileName: string, minecraftVersion?: string): Promise<void> {
+		const pack = await this.require(instance, fileName, minecraftVersion);
+		const options = await this.loadOptions(instance);
+		const enabled = this.getEnabled(options).filter(name => name !== fileName);
+		this.setEnabled(options, [...enabled, fileName]);
+
+		const id = this.toId(options, fileName);
+		const incompatible = options.getList('incompatibleResourcePacks').filter(name => name !== id);
+		if (pack.compatibility === 'too_old' || pack.compatibility === 'too_new') incompatible.push(id);
+		if (incompatible.length > 0 || options.has('incompatibleResourcePacks')) options.set('incompatibleResourcePacks', incompatible);
+		await options.save();
+	}
+
+	/**
+	 * Disables a pack. It stays installed.
+	 */
+	public async disable(instance: string | null, fileName: string): Promise<void> {
+		const options = await this.loadOptions(instance);
+		this.setEnabled(options, this.getEnabled(options).filter(name => name !== fileName));
+		const id = this.toId(options, fileName);
+		if (options.getList('incompatibleResourcePacks').includes(id)) {
+			options.set('incompatibleResourcePacks', options.getList('incompatibleResourcePacks').filter(name => name !== id));
+		}
+		await options.save();
+	}
+
+	/**
+	 * Sets the order of the enabled packs.
+	 *
+	 * @param fileNames Enabled packs, top of the game's menu (highest priority) first.
+	 *                  Enabled packs left out keep their place below them.
+	 */
+	public async reorder(instance: string | null, fileNames: string[]): Promise<void> {
+		const options = await this.loadOptions(instance);
+		const enabled = this.getEnabled(options);
+		const unknown = fileNames.filter(name => !enabled.includes(name));
+		if (unknown.length > 0) {
+			throw new FileSystemError(`Resource packs not enabled: ${unknown.join(', ')}`, this.getDirectory(instance), 'reorder', false, ErrorCodes.FILE_NOT_FOUND);
+		}
+
+		// options.txt lists packs from the bottom of the menu to the top
+		const rest = enabled.filter(name => !fileNames.includes(name));
+		this.setEnabled(options, [...rest, ...[...fileNames].reverse()]);
+		await options.save();
+	}
+
+	/**
+	 * Disables and deletes a pack.
+	 *
+	 * @returns `false` if the pack was not installed
+	 */
+	public async remove(instance: string | null, fileName: string): Promise<boolean> {
+		const target = `${this.getDirectory(instance)}/${fileName}`;
+		if (!fs.existsSync(target)) return false;
+		await this.disable(instance, fileName);
+		try {
+			fs.rmSync(target, { recursive: true, force: true });
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to remove resource pack ${fileName}: ${err.message}`, target, 'delete');
+		}
+		return true;
+	}
+
+	private getDirectory(instance: string | null): string {
+		const gameDirectory = instance ? `${this.root}/instances/${instance}` : this.root;
+		return `${gameDirectory}/${RESOURCE_PACKS_DIRECTORY}`;
+	}
+
+	private loadOptions(instance: string | null): Promise<OptionsFile> {
+		const gameDirectory = instance ? `${this.root}/instances/${instance}` : this.root;
+		return OptionsFile.load(`${gameDirectory}/options.txt`);
+	}
+
+	private async getInstanceVersion(instance: string | null): Promise<string | null> {
+		if (!instance) return null;
+		const config = await new InstanceManager(this.root).get(instance).catch((): null => null);
+		return config?.version ?? null;
+	}
+
+	private async getFormat(instance: string | null, minecraftVersion?: string): Promise<number | null> {
+		return ResourcePackManager.getPackFormat(minecraftVersion ?? await this.getInstanceVersion(instance) ?? '');
+	}
+
+	/**
+	 * Reads a pack with its place among the enabled packs, or returns `null` if `packPath`
+	 * is neither a .zip file nor a folder containing `pack.mcmeta`.
+	 */
+	private readPack(packPath: string, enabled: string[], format: number | null): ResourcePack | null {
+		let directory: boolean;
+		try {
+			directory = fs.statSync(packPath).isDirectory();
+		} catch {
+			return null;
+		}
+		const isPack = directory ? fs.existsSync(`${packPath}/pack.mcmeta`) : packPath.toLowerCase().endsWith('.zip');
+		if (!isPack) return null;
+
+		const pack = this.read(packPath, directory, format);
+		const index = enabled.indexOf(pack.fileName);
+		pack.enabled = index !== -1;
+		pack.priority = index !== -1 ? enabled.length - 1 - index : null;
+		return pack;
+	}
+
+	private async require(instance: string | null, fileName: string, minecraftVersion?: string): Promise<ResourcePack> {
+		const pack = await this.get(instance, fileName, minecraftVersion);
+		if (!pack) {
+			throw new FileSystemError(`Resource pack ${fileName} is not installed`, `${this.getDirectory(instance)}/${fileName}`, 'read', false, ErrorCodes.FILE_NOT_FOUND);
+		}
+		return pack;
+	}
+
+	/**
+	 * 1.13+ files list packs as "file/<name>"; older files (and new ones, which the game upgrades) use the bare name.
+	 */
+	private toId(options: OptionsFile, fileName: string): string {
+		return options.has('version') && !options.legacy ? `file/${fileName}` : fileName;
+	}
+
+	/**
+	 * Returns the enabled packs from `resourcePacks`, bottom of the menu first.
+	 * Built-in packs such as "vanilla" or "fabric" are left out.
+	 */
+	private getEnabled(options: OptionsFile): string[] {
+		return options.getList('resourcePacks')
+			.filter(id => id.startsWith('file/') || !options.has('version') || options.legacy)
+			.map(id => id.replace(/^file\//, ''));
+	}
+
+	/**
+	 * Replaces the file packs in `resourcePacks`, keeping the built-in packs where they are.
+	 */
+	private setEnabled(options: OptionsFile, fileNames: string[]): void {
+		const legacy = !options.has('version') || options.legacy;
+		const builtIn = legacy ? [] : options.getList('resourcePacks').filter(id => !id.startsWith('file/'));
+		options.set('resourcePacks', [...builtIn, ...fileNames.map(name => this.toId(options, name))]);
+	}
+
+	/**
+	 * Reads `pack.mcmeta` and `pack.png` from a zipped or unzipped pack. Only these two
+	 * entries of a zip are read, as packs can be hundreds of megabytes.
+	 */
+	private read(packPath: string, directory: boolean, format: number | null): ResourcePack {
+		let mcmeta: Buffer | undefined;
+		let icon: Buffer | undefined;
+		try {
+			if (directory) {
+				mcmeta = fs.readFileSync(`${packPath}/pack.mcmeta`);
+				if (fs.existsSync(`${packPath}/pack.png`)) icon = fs.readFileSync(`${packPath}/pack.png`);
+			} else {
+				const files = Unzipper.readFiles(packPath, ['pack.mcmeta', 'pack.png']);
+				mcmeta = files.get('pack.mcmeta');
+				icon = files.get('pack.png');
+			}
+		} catch (err: any) {
+			console.warn(`[ResourcePackManager] Failed to read ${packPath}: ${err.message}`);
+		}
+
+		let json: any = {};
+		try {
+			// Some packs are saved with a byte order mark
+			if (mcmeta) json = JSON.parse(mcmeta.toString('utf-8').replace(/^\uFEFF/, ''));
+		} catch (err: any) {
+			console.warn(`[ResourcePackManager] Invalid pack.mcmeta in ${packPath}: ${err.message}`);
+		}
+		const meta = json.pack ?? {};
+
+		const packFormat = this.parseFormat(meta.pack_format ?? meta.min_format);
+		const supportedFormats = this.parseRange(meta.supported_formats)
+			?? (meta.min_format !== undefined && meta.max_format !== undefined
+				? { min: this.parseFormat(meta.min_format), max: this.parseFormat(meta.max_format) }
+				: null);
+
+		const overlays: PackOverlay[] = [];
+		const entries = Array.isArray(json.overlays?.entries) ? json.overlays.entries : [];
+		for (const overlay of entries) {
+			if (typeof overlay?.directory !== 'string') continue;
+			overlays.push({
+				directory: overlay.directory,
+				formats: this.parseRange(overlay.formats)
+					?? (overlay.min_format !== undefined ? { min: this.parseFormat(overlay.min_format), max: this.parseFormat(overlay.max_format ?? overlay.min_format) } : null)
+			});
+		}
+
+		const range = supportedFormats ?? (packFormat !== null ? { min: packFormat, max: packFormat } : null);
+		let compatibility: PackCompatibility = 'unknown';
+		let warning: string | null = null;
+		if (format !== null && range) {
+			if (format < range.min) {
+				compatibility = 'too_new';
+				warning = `Made for a newer version of Minecraft (pack format ${range.min}, this version uses ${format})`;
+			} else if (format > range.max) {
+				compatibility = 'too_old';
+				warning = `Made for an older version of Minecraft (pack format ${range.max}, this version uses ${format})`;
+			} else {
+				compatibility = 'compatible';
+			}
+		}
+
+		return {
+			fileName: path.basename(packPath),
+			path: packPath,
+			directory,
+			packFormat,
+			supportedFormats,
+			description: this.toPlainText(meta.description).replace(/§./g, ''),
+			icon: icon ?? null,
+			overlays,
+			enabled: false,
+			priority: null,
+			compatibility,
+			warning
+		};
+	}
+
+	/**
+	 * Reads a format number. 1.21.9+ packs may write `[major, minor]`; only the major part matters here.
+	 */
+	private parseFormat(value: any): number | null {
+		if (Array.isArray(value)) value = value[0];
+		return typeof value === 'number' ? Math.floor(value) : null;
+	}
+
+	/**
+	 * Reads `supported_formats`, which can be a number, `[min, max]` or `{ min_inclusive, max_inclusive }`.
+	 */
+	private parseRange(value: any): PackFormatRange | null {
+		if (typeof value === 'number') return { min: value, max: value };
+		if (Array.isArray(value) && value.length === 2) return { min: value[0], max: value[1] };
+		if (value && typeof value === 'object' && typeof value.min_inclusive === 'number') {
+			return { min: value.min_inclusive, max: value.max_inclusive ?? value.min_inclusive };
+		}
+		return null;
+	}
+
+	/**
+	 * Flattens a text component (a string, an array or a `{ text, extra }` object) to plain text.
+	 */
+	private toPlainText(component: any): string {
+		if (typeof component === 'string') return component;
+		if (typeof component === 'number' || typeof component === 'boolean') return String(component);
+		if (Array.isArray(component)) return component.map(part => this.toPlainText(part)).join('');
+		if (component && typeof component === 'object') {
+			const text = component.text ?? component.translate ?? '';
+			return `${text}${(component.extra ?? []).map((part: any) => this.toPlainText(part)).join('')}`;
+		}
+		return '';
+	}
+}
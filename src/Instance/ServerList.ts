@@ -0,0 +1,184 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { NbtCompound, nbt, readNbtFile, writeNbtFile } from '../utils/Nbt.js';
+import { ConfigurationError, ErrorCodes } from '../utils/Errors.js';
+
+/**
+ * An entry of the in-game multiplayer list.
+ */
+export interface ServerEntry {
+	name: string;
+	ip: string;                   // "host" or "host:port"
+	icon: Buffer | null;          // PNG shown next to the server (64×64)
+	acceptTextures: boolean | null; // Server resource pack: `true` enabled, `false` disabled, `null` prompt
+	hidden: boolean;              // Saved by "Direct Connection", not shown in the list
+}
+
+/**
+ * Fields accepted by ServerList.add() and update().
+ */
+export type ServerEntryInput = Partial<ServerEntry> & Pick<ServerEntry, 'ip'>;
+
+const SERVERS_FILE = 'servers.dat';
+
+/**
+ * Lists, adds, updates, removes and reorders the entries of the multiplayer list
+ * (`servers.dat`) of an instance. Tags this class does not know about are kept.
+ */
+export default class ServerList {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Returns the servers in the order the game shows them.
+	 *
+	 * @param instance Instance id, or `null` for the root directory
+	 */
+	public async list(instance: string | null): Promise<ServerEntry[]> {
+		return (await this.read(instance)).map(server => this.toEntry(server));
+	}
+
+	/**
+	 * Adds a server to the list.
+	 *
+	 * @param index Position to insert at; appended at the end if omitted
+	 * @returns The server as saved
+	 */
+	public async add(instance: string | null, server: ServerEntryInput, index?: number): Promise<ServerEntry> {
+		if (!server.ip) throw new ConfigurationError('Server address is required', 'ip', server.ip, ErrorCodes.MISSING_REQUIRED_FIELD);
+		const servers = await this.read(instance);
+		const compound = this.apply({}, { name: 'Minecraft Server', ...server });
+		servers.splice(index ?? servers.length, 0, compound);
+		await this.write(instance, servers);
+		return this.toEntry(compound);
+	}
+
+	/**
+	 * Changes a server. Fields that are not given keep their value.
+	 *
+	 * @param target Index of the server, or its address
+	 */
+	public async update(instance: string | null, target: number | string, changes: Partial<ServerEntry>): Promise<ServerEntry> {
+		const servers = await this.read(instance);
+		const index = this.indexOf(servers, target);
+		this.apply(servers[index], changes);
+		await this.write(instance, servers);
+		return this.toEntry(servers[index]);
+	}
+
+	/**
+	 * Removes a server.
+	 *
+	 * @param target Index of the server, or its address
+	 * @returns `false` if there was no such server
+	 */
+	public async remove(instance: string | null, target: number | string): Promise<boolean> {
+		const servers = await this.read(instance);
+		const index = this.findIndex(servers, target);
+		if (index === -1) return false;
+		servers.splice(index, 1);
+		await this.write(instance, servers);
+		return true;
+	}
+
+	/**
+	 * Moves servers to the top of the list, in the given order. The others keep their order below them.
+	 *
+	 * @param addresses Server addresses, first one at the top
+	 */
+	public async reorder(instance: string | null, addresses: string[]): Promise<ServerEntry[]> {
+		const servers = await this.read(instance);
+		// An address given twice (or two addresses of the same server) only moves it once
+		const top = [...new Set(addresses.map(ip => servers[this.indexOf(servers, ip)]))];
+		const reordered = [...top, ...servers.filter(server => !top.includes(server))];
+		await this.write(instance, reordered);
+		return reordered.map(server => this.toEntry(server));
+	}
+
+	private getFile(instance: string | null): string {
+		const directory = instance ? `${this.root}/instances/${instance}` : this.root;
+		return `${directory}/${SERVERS_FILE}`;
+	}
+
+	private async read(instance: string | null): Promise<NbtCompound[]> {
+		const file = this.getFile(instance);
+		if (!fs.existsSync(file)) return [];
+		const { value } = await readNbtFile(file);
+		const servers = value.servers;
+		if (servers?.type !== 'list' || servers.value.type !== 'compound') return [];
+		return servers.value.value as NbtCompound[];
+	}
+
+	/**
+	 * Writes the list, keeping the previous file as `servers.dat_old` like the game does.
+	 */
+	private async write(instance: string | null, servers: NbtCompound[]): Promise<void> {
+		const file = this.getFile(instance);
+		let root: NbtCompound = {};
+		if (fs.existsSync(file)) {
+			root = (await readNbtFile(file)).value;
+			fs.copyFileSync(file, `${file}_old`);
+		}
+		root.servers = nbt.list('compound', servers);
+		await writeNbtFile(file, root, 'none');
+	}
+
+	private findIndex(servers: NbtCompound[], target: number | string): number {
+		if (typeof target === 'number') return target >= 0 && target < servers.length ? target : -1;
+		return servers.findIndex(server => this.getString(server, 'ip') === target);
+	}
+
+	private indexOf(servers: NbtCompound[], target: number | string): number {
+		const index = this.findIndex(servers, target);
+		if (index === -1) {
+			throw new ConfigurationError(`Server ${target} is not in the list`, 'target', target, ErrorCodes.SERVER_NOT_FOUND);
+		}
+		return index;
+	}
+
+	/**
+	 * Writes entry fields into a server compound.
+	 */
+	private apply(server: NbtCompound, changes: Partial<ServerEntry>): NbtCompound {
+		if (changes.name !== undefined) server.name = nbt.string(changes.name);
+		if (changes.ip !== undefined) server.ip = nbt.string(changes.ip);
+		if (changes.icon !== undefined) {
+			if (changes.icon) server.icon = nbt.string(changes.icon.toString('base64'));
+			else delete server.icon;
+		}
+		if (changes.acceptTextures !== undefined) {
+			if (changes.acceptTextures === null) delete server.acceptTextures;
+			else server.acceptTextures = nbt.byte(changes.acceptTextures);
+		}
+		if (changes.hidden !== undefined) server.hidden = nbt.byte(changes.hidden);
+		return server;
+	}
+
+	private toEntry(server: NbtCompound): ServerEntry {
+		const icon = this.getString(server, 'icon');
+		const acceptTextures = server.acceptTextures?.type === 'byte' ? server.acceptTextures.value !== 0 : null;
+		return {
+			name: this.getString(server, 'name') ?? '',
+			ip: this.getString(server, 'ip') ?? '',
+			icon: icon ? Buffer.from(icon, 'base64') : null,
+			acceptTextures,
+			hidden: server.hidden?.type === 'byte' && server.hidden.value !== 0
+		};
+	}
+
+	private getString(server: NbtCompound, key: string): string | undefined {
+		const tag = server[key];
+		return tag?.type === 'string' ? tag.value : undefined;
+	}
+}
@@ -0,0 +1,351 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { EventEmitter } from 'events';
+import { StringDecoder } from 'string_decoder';
+import GameLogParser, { LogRecord } from '../Minecraft/Minecraft-Log.js';
+import { FileSystemError } from '../utils/Errors.js';
+
+/**
+ * Describes a running game, persisted in `<game directory>/sessions/<pid>.json`
+ * so it can be found again after the launcher restarts.
+ */
+export interface SessionRecord {
+	pid: number;
+	startTime: string;            // ISO date the process was spawned
+	instance: string | null;      // Instance id, or `null` for the root directory
+	version: string;              // Resolved Minecraft version
+	loader: {
+		type: string;
+		build: string;
+	} | null;
+	executable?: string;          // Command that was spawned: Java, or the wrapper
+	gameDirectory: string;        // Absolute working directory of the game
+	logFile: string;              // Absolute path to the game's `logs/latest.log`
+	detached: boolean;
+}
+
+/**
+ * Options for SessionManager.terminate().
+ */
+export interface TerminateOptions {
+	force?: boolean;              // Send SIGKILL straight away
+	timeout?: number;             // Milliseconds to wait before escalating to SIGKILL (default 10000)
+}
+
+const SESSIONS_DIRECTORY = 'sessions';
+const POLL_INTERVAL = 500;
+// How far the process start time may be from the recorded one
+const START_TIME_TOLERANCE = 5000;
+// Linux reports process start times in clock ticks, nearly always 100 per second
+const CLOCK_TICKS = 100;
+
+/**
+ * Keeps track of running game processes across launcher restarts: lists them,
+ * reattaches to their log output and terminates them.
+ */
+export default class SessionManager {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Returns `true` if a process with this PID is still running.
+	 */
+	public static isAlive(pid: number): boolean {
+		try {
+			process.kill(pid, 0);
+			return true;
+		} catch (err: any) {
+			// EPERM means the process exists but belongs to someone else
+			return err.code === 'EPERM';
+		}
+	}
+
+	/**
+	 * Returns `true` if the session's process is still running and is the one that
+	 * was recorded, not another program that was given the same PID after a reboot.
+	 * The process start time is compared with the record's, or, where it cannot be
+	 * read, the executable name. The PID alone decides when neither is available.
+	 */
+	public static isRunning(record: SessionRecord): boolean {
+		if (!SessionManager.isAlive(record.pid)) return false;
+
+		const startTime = SessionManager.getStartTime(record.pid);
+		if (startTime !== null) {
+			return Math.abs(startTime - new Date(record.startTime).getTime()) <= START_TIME_TOLERANCE;
+		}
+
+		const executable = SessionManager.getExecutable(record.pid);
+		if (executable !== null && record.executable) {
+			const name = (file: string) => path.basename(file).toLowerCase().replace(/\.exe$/, '');
+			return name(executable) === name(record.executable);
+		}
+		return true;
+	}
+
+	/**
+	 * Returns when a process started, in milliseconds since the epoch, from
+	 * `/proc` on Linux and `ps` on other Unix systems, or `null` if unknown.
+	 */
+	private static getStartTime(pid: number): number | null {
+		try {
+			if (process.platform === 'linux') {
+				// The command name in parentheses may contain spaces, so fields are counted after it
+				const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+				const ticks = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[19]);
+				const bootTime = Number(/^btime (\d+)$/m.exec(fs.readFileSync('/proc/stat', 'utf-8'))?.[1]);
+				if (!Number.isFinite(ticks) || !bootTime) return null;
+				return bootTime * 1000 + ticks * 1000 / CLOCK_TICKS;
+			}
+			if (process.platform === 'win32') return null;
+
+			// Elapsed time as [[dd-]hh:]mm:ss
+			const elapsed = execFileSync('ps', ['-o', 'etime=', '-p', String(pid)], { encoding: 'utf-8', timeout: 5000 }).trim();
+			const match = /^(?:(?:(\d+)-)?(\d+):)?(\d+):(\d+)$/.exec(elapsed);
+			if (!match) return null;
+			const [days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+			return Date.now() - (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Returns the executable name of a process on Windows, or `null` if unknown.
+	 */
+	private static getExecutable(pid: number): string | null {
+		if (process.platform !== 'win32') return null;
+		try {
+			const output = execFileSync('tasklist', ['/FI', `PID eq ${pid}`, '/FO', 'CSV', '/NH'], { encoding: 'utf-8', timeout: 5000 });
+			return /^"([^"]+)"/.exec(output.trim())?.[1] ?? null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Saves a session record next to the game data.
+	 */
+	public create(record: SessionRecord): SessionRecord {
+		const file = this.getFile(record);
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(`${file}.tmp`, JSON.stringify(record, null, 4));
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to write session ${file}: ${err.message}`, file, 'write');
+		}
+		return record;
+	}
+
+	/**
+	 * Deletes a session record. Does nothing if it is already gone.
+	 */
+	public remove(record: SessionRecord): void {
+		fs.rmSync(this.getFile(record), { force: true });
+	}
+
+	/**
+	 * Lists the sessions whose process is still running, in the root directory and in
+	 * every instance. Records left behind by processes that have exited, or whose PID
+	 * now belongs to another program, are deleted.
+	 */
+	public async list(): Promise<SessionRecord[]> {
+		const directories = [this.root];
+		const instances = `${this.root}/instances`;
+		if (fs.existsSync(instances)) {
+			for (const entry of fs.readdirSync(instances, { withFileTypes: true })) {
+				if (entry.isDirectory()) directories.push(`${instances}/${entry.name}`);
+			}
+		}
+
+		const sessions: SessionRecord[] = [];
+		for (const directory of directories) {
+			const sessionsDirectory = `${directory}/${SESSIONS_DIRECTORY}`;
+			if (!fs.existsSync(sessionsDirectory)) continue;
+
+			for (const name of fs.readdirSync(sessionsDirectory)) {
+				if (!/^\d+\.json$/.test(name)) continue;
+				const record = this.read(`${sessionsDirectory}/${name}`);
+				if (!record) continue;
+				if (SessionManager.isRunning(record)) {
+					sessions.push(record);
+				} else {
+					this.remove(record);
+				}
+			}
+		}
+		return sessions.sort((a, b) => a.startTime.localeCompare(b.startTime));
+	}
+
+	/**
+	 * Finds a running session by PID.
+	 */
+	public async get(pid: number): Promise<SessionRecord | null> {
+		return (await this.list()).find(session => session.pid === pid) ?? null;
+	}
+
+	/**
+	 * Follows a running session: its log file is streamed as "data" and "log" events,
+	 * and "close" is emitted once the process exits.
+	 *
+	 * @param record    The session to follow
+	 * @param fromStart Replay the log file from the beginning instead of only new output
+	 */
+	public attach(record: SessionRecord, fromStart: boolean = false): AttachedSession {
+		return new AttachedSession(record, this, fromStart);
+	}
+
+	/**
+	 * Returns the last lines of a session's log file.
+	 */
+	public async tail(record: SessionRecord, lines: number = 100): Promise<string[]> {
+		if (!fs.existsSync(record.logFile)) return [];
+		const content = await fs.promises.readFile(record.logFile, 'utf-8');
+		return content.split(/\r?\n/).filter(line => line.length > 0).slice(-lines);
+	}
+
+	/**
+	 * Stops a session's process, first with SIGTERM and then with SIGKILL if it
+	 * is still running after `timeout`. A record whose PID now belongs to another
+	 * program is deleted without signalling anything.
+	 *
+	 * @returns `true` if the process is no longer running
+	 */
+	public async terminate(record: SessionRecord, options: TerminateOptions = {}): Promise<boolean> {
+		const timeout = options.timeout ?? 10000;
+		if (SessionManager.isRunning(record)) {
+			try {
+				process.kill(record.pid, options.force ? 'SIGKILL' : 'SIGTERM');
+			} catch (err: any) {
+				console.warn(`[SessionManager] Failed to signal process ${record.pid}: ${err.message}`);
+			}
+
+			const deadline = Date.now() + timeout;
+			while (SessionManager.isRunning(record) && Date.now() < deadline) {
+				await new Promise(resolve => setTimeout(resolve, 200));
+			}
+			if (SessionManager.isRunning(record)) {
+				try {
+					process.kill(record.pid, 'SIGKILL');
+				} catch { }
+				await new Promise(resolve => setTimeout(resolve, 500));
+			}
+		}
+
+		const stopped = !SessionManager.isRunning(record);
+		if (stopped) this.remove(record);
+		return stopped;
+	}
+
+	private getFile(record: SessionRecord): string {
+		return `${record.gameDirectory}/${SESSIONS_DIRECTORY}/${record.pid}.json`;
+	}
+
+	private read(file: string): SessionRecord | null {
+		try {
+			return JSON.parse(fs.readFileSync(file, 'utf-8'));
+		} catch (err: any) {
+			console.warn(`[SessionManager] Failed to read ${file}: ${err.message}`);
+			return null;
+		}
+	}
+}
+
+/**
+ * A running session followed through its log file. Emits "data" with raw text,
+ * "log" with parsed LogRecords and "close" once the process has exited.
+ */
+export class AttachedSession extends EventEmitter {
+	public readonly record: SessionRecord;
+	private readonly manager: SessionManager;
+	private readonly parser = new GameLogParser('stdout');
+	private readonly decoder = new StringDecoder('utf8');
+	private position = 0;
+	private timer: NodeJS.Timeout | null = null;
+
+	constructor(record: SessionRecord, manager: SessionManager, fromStart: boolean) {
+		super();
+		this.record = record;
+		this.manager = manager;
+		this.parser.on('record', (log: LogRecord) => this.emit('log', log));
+
+		if (!fromStart && fs.existsSync(record.logFile)) {
+			this.position = fs.statSync(record.logFile).size;
+		}
+		this.timer = setInterval(() => this.poll(), POLL_INTERVAL);
+		// Give listeners a chance to subscribe before the first read
+		setImmediate(() => this.poll());
+	}
+
+	/**
+	 * Stops following the session. The game keeps running.
+	 */
+	public detach(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.parser.end();
+	}
+
+	/**
+	 * Stops the game process. "close" is emitted once it has exited.
+	 */
+	public async terminate(options?: TerminateOptions): Promise<boolean> {
+		const stopped = await this.manager.terminate(this.record, options);
+		if (stopped) this.poll();
+		return stopped;
+	}
+
+	private poll(): void {
+		if (!this.timer) return;
+		this.readNewOutput();
+
+		if (!SessionManager.isRunning(this.record)) {
+			this.detach();
+			this.manager.remove(this.record);
+			this.emit('close', {
+				message: 'Minecraft closed',
+				pid: this.record.pid,
+				runtime: Date.now() - new Date(this.record.startTime).getTime(),
+				instanceId: this.record.instance
+			});
+		}
+	}
+
+	private readNewOutput(): void {
+		if (!fs.existsSync(this.record.logFile)) return;
+		const size = fs.statSync(this.record.logFile).size;
+		// The log was rotated or truncated (e.g. by a new launch)
+		if (size < this.position) this.position = 0;
+		if (size === this.position) return;
+
+		const length = size - this.position;
+		const buffer = Buffer.alloc(length);
+		const fd = fs.openSync(this.record.logFile, 'r');
+		try {
+			fs.readSync(fd, buffer, 0, length, this.position);
+		} finally {
+			fs.closeSync(fd);
+		}
+		this.position = size;
+
+		// The decoder holds back characters split across two reads
+		const text = this.decoder.write(buffer);
+		if (!text) return;
+		this.parser.write(text);
+		this.emit('data', text);
+	}
+}
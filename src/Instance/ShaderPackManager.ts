@@ -0,0 +1,355 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Unzipper from '../utils/unzipper.js';
+import { ConfigurationError, FileSystemError, ErrorCodes } from '../utils/Errors.js';
+
+/**
+ * Mods that load shader packs. Oculus is the Forge port of Iris and uses the same settings.
+ */
+export type ShaderLoader = 'iris' | 'oculus' | 'optifine';
+
+/**
+ * A shader pack in an instance's `shaderpacks` folder.
+ */
+export interface ShaderPack {
+	fileName: string;             // Name in `shaderpacks/` (a .zip file or a folder)
+	path: string;                 // Absolute path
+	directory: boolean;           // Unzipped pack
+	selected: boolean;            // Selected in the shader loader's settings
+}
+
+/**
+ * An option declared by a shader pack, as shown in the loader's shader options screen.
+ */
+export interface ShaderOption {
+	name: string;
+	type: 'boolean' | 'value';    // Toggle (`#define NAME`) or value from a list (`#define NAME 2 // [1 2 4]`)
+	default: string;
+	values: string[];             // Allowed values; `["true", "false"]` for toggles
+	value: string;                // Current value, from `shaderpacks/<pack>.txt`
+	label: string | null;         // English name from the pack's `lang/en_us.lang`
+	comment: string | null;       // Comment next to the declaration
+}
+
+/**
+ * The shader settings of an instance.
+ */
+export interface ShaderSelection {
+	loader: ShaderLoader | null;  // `null` if no shader loader is installed
+	shaderPack: string | null;    // Selected pack; `null` if none
+	enabled: boolean;
+}
+
+/**
+ * Options for ShaderPackManager.install().
+ */
+export interface ShaderPackInstallOptions {
+	fileName?: string;            // Name in `shaderpacks/`; defaults to the source's name
+	select?: boolean;             // Also select and enable the pack
+}
+
+const SHADER_PACKS_DIRECTORY = 'shaderpacks';
+const SHADER_SOURCE = /\.(?:fsh|vsh|gsh|csh|tcs|tes|glsl|inc)$/i;
+
+/**
+ * Where each loader keeps its settings, relative to the game directory.
+ */
+const LOADER_CONFIG: Record<ShaderLoader, string> = {
+	iris: 'config/iris.properties',
+	oculus: 'config/oculus.properties',
+	optifine: 'optionsshaders.txt'
+};
+
+/**
+ * Installs, lists and removes the shader packs of an instance, reads the options they
+ * declare, and selects one in Iris, Oculus or OptiFine.
+ */
+export default class ShaderPackManager {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Finds the shader loader of an instance from its mods, then from the settings files loaders leave behind.
+	 *
+	 * @returns The loader, or `null` if none is installed
+	 */
+	public detectLoader(instance: string | null): ShaderLoader | null {
+		const mods = `${this.getGameDirectory(instance)}/mods`;
+		if (fs.existsSync(mods)) {
+			const jars = fs.readdirSync(mods).filter(name => name.toLowerCase().endsWith('.jar')).map(name => name.toLowerCase());
+			if (jars.some(name => name.startsWith('oculus'))) return 'oculus';
+			if (jars.some(name => name.startsWith('iris'))) return 'iris';
+			if (jars.some(name => name.includes('optifine'))) return 'optifine';
+		}
+
+		for (const loader of Object.keys(LOADER_CONFIG) as ShaderLoader[]) {
+			if (fs.existsSync(`${this.getGameDirectory(instance)}/${LOADER_CONFIG[loader]}`)) return loader;
+		}
+		return null;
+	}
+
+	/**
+	 * Lists the packs in the instance's `shaderpacks` folder, by name.
+	 */
+	public async list(instance: string | null): Promise<ShaderPack[]> {
+		const directory = this.getDirectory(instance);
+		if (!fs.existsSync(directory)) return [];
+		const { shaderPack } = await this.getSelected(instance);
+
+		const packs: ShaderPack[] = [];
+		for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+			const isPack = entry.isDirectory()
+				? fs.existsSync(`${directory}/${entry.name}/shaders`)
+				: entry.name.toLowerCase().endsWith('.zip');
+			if (!isPack) continue;
+			packs.push({
+				fileName: entry.name,
+				path: `${directory}/${entry.name}`,
+				directory: entry.isDirectory(),
+				selected: entry.name === shaderPack
+			});
+		}
+		return packs.sort((a, b) => a.fileName.localeCompare(b.fileName));
+	}
+
+	/**
+	 * Copies a pack (a .zip file or a folder containing `shaders/`) into the instance's
+	 * `shaderpacks` folder, replacing a pack with the same name.
+	 */
+	public async install(instance: string | null, source: string, options: ShaderPackInstallOptions = {}): Promise<ShaderPack> {
+		if (!fs.existsSync(source)) {
+			throw new FileSystemError(`Shader pack ${source} not found`, source, 'read', false, ErrorCodes.FILE_NOT_FOUND);
+		}
+		if (!this.readSources(source).some(file => file.name.startsWith('shaders/'))) {
+			throw new FileSystemError(`${source} is not a shader pack (no shaders folder)`, source, 'read', false, ErrorCodes.FILE_CORRUPTED);
+		}
+
+		const fileName = options.fileName || path.basename(source);
+		const target = `${this.getDirectory(instance)}/${fileName}`;
+		if (path.resolve(source) !== path.resolve(target)) {
+			try {
+				fs.mkdirSync(this.getDirectory(instance), { recursive: true });
+				fs.rmSync(target, { recursive: true, force: true });
+				fs.cpSync(source, target, { recursive: true });
+			} catch (err: any) {
+				throw new FileSystemError(`Failed to install shader pack ${fileName}: ${err.message}`, target, 'copy');
+			}
+		}
+
+		if (options.select) await this.select(instance, fileName);
+		return (await this.list(instance)).find(pack => pack.fileName === fileName);
+	}
+
+	/**
+	 * Deletes a pack and its saved options, and deselects it if it was selected.
+	 *
+	 * @returns `false` if the pack was not installed
+	 */
+	public async remove(instance: string | null, fileName: string): Promise<boolean> {
+		const target = `${this.getDirectory(instance)}/${fileName}`;
+		if (!fs.existsSync(target)) return false;
+		if ((await this.getSelected(instance)).shaderPack === fileName) await this.select(instance, null);
+		try {
+			fs.rmSync(target, { recursive: true, force: true });
+			fs.rmSync(`${target}.txt`, { force: true });
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to remove shader pack ${fileName}: ${err.message}`, target, 'delete');
+		}
+		return true;
+	}
+
+	/**
+	 * Reads the loader's settings to find the selected pack.
+	 *
+	 * @param loader Shader loader to read; detected from the instance if omitted
+	 */
+	public async getSelected(instance: string | null, loader: ShaderLoader | null = this.detectLoader(instance)): Promise<ShaderSelection> {
+		if (!loader) return { loader: null, shaderPack: null, enabled: false };
+		const config = this.readProperties(`${this.getGameDirectory(instance)}/${LOADER_CONFIG[loader]}`);
+		let shaderPack = config.get('shaderPack');
+		// Loaders fall back to no shaders when the selected pack has been deleted
+		if (shaderPack && !fs.existsSync(`${this.getDirectory(instance)}/${shaderPack}`)) shaderPack = null;
+
+		if (loader === 'optifine') {
+			// OptiFine has no separate switch: "OFF" disables shaders, "(internal)" uses none
+			const selected = shaderPack && shaderPack !== '(internal)' ? shaderPack : null;
+			return { loader, shaderPack: selected, enabled: selected !== null };
+		}
+		return { loader, shaderPack: shaderPack || null, enabled: config.get('enableShaders') !== 'false' && !!shaderPack };
+	}
+
+	/**
+	 * Selects and enables a pack in the loader's settings, or disables shaders with `null`.
+	 *
+	 * @param loader Shader loader to configure; detected from the instance if omitted
+	 */
+	public async select(instance: string | null, fileName: string | null, loader: ShaderLoader | null = this.detectLoader(instance)): Promise<void> {
+		if (!loader) {
+			throw new ConfigurationError('No shader loader (Iris, Oculus or OptiFine) is installed in this instance', 'loader', instance, ErrorCodes.LOADER_NOT_FOUND);
+		}
+		if (fileName && !fs.existsSync(`${this.getDirectory(instance)}/${fileName}`)) {
+			throw new FileSystemError(`Shader pack ${fileName} is not installed`, `${this.getDirectory(instance)}/${fileName}`, 'read', false, ErrorCodes.FILE_NOT_FOUND);
+		}
+
+		const file = `${this.getGameDirectory(instance)}/${LOADER_CONFIG[loader]}`;
+		const config = this.readProperties(file);
+		if (loader === 'optifine') {
+			config.set('shaderPack', fileName ?? 'OFF');
+		} else {
+			if (fileName) config.set('shaderPack', fileName);
+			config.set('enableShaders', String(!!fileName));
+		}
+		this.writeProperties(file, config);
+	}
+
+	/**
+	 * Reads the options a pack declares in its shader sources, with their current values.
+	 */
+	public async getOptions(instance: string | null, fileName: string): Promise<ShaderOption[]> {
+		const packPath = `${this.getDirectory(instance)}/${fileName}`;
+		if (!fs.existsSync(packPath)) {
+			throw new FileSystemError(`Shader pack ${fileName} is not installed`, packPath, 'read', false, ErrorCodes.FILE_NOT_FOUND);
+		}
+
+		const files = this.readSources(packPath);
+		const sources = files.filter(file => SHADER_SOURCE.test(file.name)).map(file => file.data.toString('utf-8'));
+		const langFile = files.find(file => /^shaders\/lang\/en_us\.lang$/i.test(file.name));
+		const labels = langFile ? this.parseProperties(langFile.data.toString('utf-8')) : new Map<string, string>();
+		const saved = this.readProperties(`${packPath}.txt`);
+
+		// Value-less defines are only options if the shaders test them
+		const tested = new Set<string>();
+		for (const source of sources) {
+			for (const match of source.matchAll(/#ifn?def\s+(\w+)|\bdefined\s*\(?\s*(\w+)/g)) {
+				tested.add(match[1] ?? match[2]);
+			}
+		}
+
+		const options = new Map<string, ShaderOption>();
+		for (const source of sources) {
+			for (const line of source.split(/\r?\n/)) {
+				const match = line.match(/^\s*(\/\/)?\s*#define\s+(\w+)(?:[ \t]+([^\s/]+))?[ \t]*(?:\/\/[ \t]*(.*))?$/);
+				if (!match || options.has(match[2])) continue;
+				const [, commented, name, value, comment] = match;
+
+				let option: Omit<ShaderOption, 'value' | 'label'> | null = null;
+				if (value === undefined) {
+					if (tested.has(name)) {
+						option = { name, type: 'boolean', default: String(!commented), values: ['true', 'false'], comment: comment?.trim() || null };
+					}
+				} else if (!commented && comment !== undefined) {
+					// "#define NAME value // Description [a b c]"
+					const list = comment.match(/\[([^\]]*)\]/);
+					option = {
+						name,
+						type: 'value',
+						default: value,
+						values: list ? list[1].trim().split(/\s+/) : [value],
+						comment: comment.replace(/\[[^\]]*\]/, '').trim() || null
+					};
+				}
+
+				if (option) {
+					options.set(name, {
+						...option,
+						value: saved.get(name) ?? option.default,
+						label: labels.get(`option.${name}`) ?? null
+					});
+				}
+			}
+		}
+		return [...options.values()];
+	}
+
+	/**
+	 * Saves option values to `shaderpacks/<pack>.txt`, which Iris, Oculus and OptiFine all read.
+	 * Options that are not listed keep their current value.
+	 */
+	public async setOptions(instance: string | null, fileName: string, values: Record<string, string | number | boolean>): Promise<void> {
+		const file = `${this.getDirectory(instance)}/${fileName}.txt`;
+		const saved = this.readProperties(file);
+		for (const [name, value] of Object.entries(values)) saved.set(name, String(value));
+		this.writeProperties(file, saved);
+	}
+
+	private getGameDirectory(instance: string | null): string {
+		return instance ? `${this.root}/instances/${instance}` : this.root;
+	}
+
+	private getDirectory(instance: string | null): string {
+		return `${this.getGameDirectory(instance)}/${SHADER_PACKS_DIRECTORY}`;
+	}
+
+	/**
+	 * Returns the files of a zipped or unzipped pack, with paths relative to the pack.
+	 */
+	private readSources(packPath: string): Array<{ name: string, data: Buffer }> {
+		if (!fs.statSync(packPath).isDirectory()) {
+			return new Unzipper(packPath).getEntries()
+				.filter(entry => !entry.isDirectory)
+				.map(entry => ({ name: entry.entryName, get data() { return entry.getData(); } }));
+		}
+
+		const files: Array<{ name: string, data: Buffer }> = [];
+		const walk = (directory: string) => {
+			for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+				const full = `${directory}/${entry.name}`;
+				if (entry.isDirectory()) walk(full);
+				else files.push({ name: path.relative(packPath, full).replace(/\\/g, '/'), get data() { return fs.readFileSync(full); } });
+			}
+		};
+		walk(packPath);
+		return files;
+	}
+
+	/**
+	 * Parses a Java properties file into a map. Comments and blank lines are skipped.
+	 */
+	private parseProperties(content: string): Map<string, string> {
+		const properties = new Map<string, string>();
+		for (const line of content.split(/\r?\n/)) {
+			if (/^\s*([#!]|$)/.test(line)) continue;
+			const match = line.match(/^\s*((?:\\.|[^=:\s\\])+)\s*[=:\s]\s*(.*)$/);
+			if (!match) continue;
+			const unescape = (text: string) => text.replace(/\\(.)/g, (_, char) => ({ t: '\t', n: '\n', r: '\r' } as Record<string, string>)[char] ?? char);
+			properties.set(unescape(match[1]), unescape(match[2]));
+		}
+		return properties;
+	}
+
+	private readProperties(file: string): Map<string, string> {
+		if (!fs.existsSync(file)) return new Map();
+		try {
+			return this.parseProperties(fs.readFileSync(file, 'utf-8'));
+		} catch (err: any) {
+			console.warn(`[ShaderPackManager] Failed to read ${file}: ${err.message}`);
+			return new Map();
+		}
+	}
+
+	/**
+	 * Writes a properties file the way Java's `Properties.store()` does, escaping `=`, `:`, `#` and `!`.
+	 */
+	private writeProperties(file: string, properties: Map<string, string>): void {
+		const escape = (text: string) => text.replace(/[\\=:#!]/g, char => `\\${char}`).replace(/\n/g, '\\n').replace(/^ /, '\\ ');
+		const content = [...properties].map(([key, value]) => `${escape(key)}=${escape(value)}`).join('\n') + '\n';
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(`${file}.tmp`, content);
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to write ${file}: ${err.message}`, file, 'write');
+		}
+	}
+}
@@ -0,0 +1,470 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import TypedEmitter from '../utils/TypedEmitter.js';
+import Unzipper from '../utils/unzipper.js';
+import Zipper from '../utils/zipper.js';
+import { getFileHash } from '../utils/Index.js';
+import { ConfigurationError, ErrorCodes, FileSystemError, ValidationError } from '../utils/Errors.js';
+import PlaytimeHistory from './PlaytimeHistory.js';
+
+/**
+ * Why a backup was made.
+ */
+export type BackupReason =
+	| 'manual'             // Asked for with create()
+	| 'version_change'     // Before the first launch with another Minecraft version
+	| 'loader_change'      // Before the first launch with another loader or loader build
+	| 'before_restore';    // The world a restore replaced
+
+/**
+ * A world backup: a ZIP archive of `saves/<world>` with the world folder at its root,
+ * like the game's own "Make Backup".
+ */
+export interface WorldBackup {
+	id: string;                   // "<world>/<date>", unique in the game directory
+	world: string;                // Folder name in `saves/`
+	file: string;                 // Absolute path to the archive
+	createdAt: string;            // ISO date
+	reason: BackupReason;
+	size: number;                 // Archive size in bytes
+	fileCount: number;            // Files in the archive, directories excluded
+	sha1: string;                 // Checksum of the archive, checked by verify()
+	minecraftVersion: string | null; // Version the world was last played with
+	loader: {
+		type: string;
+		build: string;
+	} | null;
+}
+
+/**
+ * Which backups of a world to keep. A backup is kept if any rule keeps it;
+ * with no rule set, every backup is kept.
+ */
+export interface BackupRetention {
+	keepLast?: number;            // Most recent backups
+	daily?: number;               // Newest backup of each of the last N days with backups
+	weekly?: number;              // Newest backup of each of the last N weeks with backups
+}
+
+export interface BackupOptions {
+	reason?: BackupReason;        // Default: 'manual'
+	minecraftVersion?: string | null; // Default: the version of the last game session
+	loader?: WorldBackup['loader']; // Default: the loader of the last game session
+	retention?: BackupRetention;  // Applied to the world's backups once this one is written
+}
+
+export interface RestoreOptions {
+	folder?: string;              // Restore as another world instead of replacing the original
+	backupCurrent?: boolean;      // Back up the world being replaced first. Default: `true`
+}
+
+/**
+ * Result of WorldBackupManager.verify().
+ */
+export interface BackupVerification {
+	valid: boolean;
+	fileCount: number;            // Files found in the archive
+	problems: string[];
+}
+
+/**
+ * Events emitted by WorldBackupManager.
+ */
+export interface WorldBackupEvents {
+	/** Files archived, checked or extracted so far, total files and the world */
+	progress: [processed: number, total: number, world: string];
+	created: [backup: WorldBackup];
+	restored: [backup: WorldBackup, folder: string];
+	deleted: [backup: WorldBackup];
+}
+
+/**
+ * Contents of `backups.json`. Archive paths are derived from the ids.
+ */
+interface BackupIndex {
+	backups: Omit<WorldBackup, 'file'>[];
+}
+
+const SAVES_DIRECTORY = 'saves';
+const BACKUPS_DIRECTORY = 'backups';
+const INDEX_FILE = 'backups.json';
+// Held open by the game while the world is loaded, and meaningless in a backup
+const SKIPPED_FILES = ['session.lock'];
+
+/**
+ * Backs up the worlds of an instance into `backups/<world>/`, applies retention
+ * rules, checks archives and restores them in place.
+ */
+export default class WorldBackupManager extends TypedEmitter<WorldBackupEvents> {
+	private readonly root: string;
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		super();
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Returns the folder names of the worlds in `saves/`.
+	 *
+	 * @param instance Instance id, or `null` for the root directory
+	 */
+	public async getWorlds(instance: string | null): Promise<string[]> {
+		const saves = `${this.getGameDirectory(instance)}/${SAVES_DIRECTORY}`;
+		if (!fs.existsSync(saves)) return [];
+		return fs.readdirSync(saves, { withFileTypes: true })
+			.filter(entry => entry.isDirectory() && fs.existsSync(`${saves}/${entry.name}/level.dat`))
+			.map(entry => entry.name);
+	}
+
+	/**
+	 * Returns the backups, newest first. Backups whose archive was deleted are left out.
+	 *
+	 * @param world Only the backups of this world
+	 */
+	public async list(instance: string | null, world?: string): Promise<WorldBackup[]> {
+		return this.read(instance)
+			.filter(backup => !world || backup.world === world)
+			.filter(backup => fs.existsSync(backup.file))
+			.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	public async get(instance: string | null, id: string): Promise<WorldBackup | null> {
+		return (await this.list(instance)).find(backup => backup.id === id) ?? null;
+	}
+
+	/**
+	 * Archives a world. Emits `progress` for each file and `created` once the archive is written.
+	 *
+	 * @param world Folder name in `saves/`
+	 */
+	public async create(instance: string | null, world: string, options: BackupOptions = {}): Promise<WorldBackup> {
+		this.checkFolderName(world);
+		const worldPath = `${this.getGameDirectory(instance)}/${SAVES_DIRECTORY}/${world}`;
+		if (!fs.existsSync(`${worldPath}/level.dat`)) {
+			throw new ConfigurationError(`World ${world} was not found`, 'world', world, ErrorCodes.WORLD_NOT_FOUND);
+		}
+
+		const createdAt = new Date();
+		const id = this.getUniqueId(instance, world, createdAt);
+		const file = this.getArchive(instance, id);
+		const entries = this.listEntries(worldPath);
+		const total = entries.filter(entry => !entry.endsWith('/')).length;
+
+		let zip: Zipper | null = null;
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			zip = new Zipper(`${file}.tmp`);
+			zip.addDirectory(`${world}/`);
+			let processed = 0;
+			for (const entry of entries) {
+				const full = `${worldPath}/${entry}`;
+				if (entry.endsWith('/')) {
+					zip.addDirectory(`${world}/${entry}`, fs.statSync(full).mtime);
+					continue;
+				}
+				zip.addFile(`${world}/${entry}`, fs.readFileSync(full), fs.statSync(full).mtime);
+				this.emit('progress', ++processed, total, world);
+			}
+			zip.close();
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			zip?.abort();
+			fs.rmSync(`${file}.tmp`, { force: true });
+			throw new FileSystemError(`Failed to back up world ${world}: ${err.message}`, file, 'write');
+		}
+
+		const [lastSession] = await new PlaytimeHistory(this.root).getSessions(instance, 1);
+		const backup: WorldBackup = {
+			id,
+			world,
+			file,
+			createdAt: createdAt.toISOString(),
+			reason: options.reason ?? 'manual',
+			size: fs.statSync(file).size,
+			fileCount: total,
+			sha1: await getFileHash(file),
+			minecraftVersion: options.minecraftVersion !== undefined ? options.minecraftVersion : lastSession?.version ?? null,
+			loader: options.loader !== undefined ? options.loader : lastSession?.loader ?? null
+		};
+		this.write(instance, [...this.read(instance), backup]);
+		this.emit('created', backup);
+
+		if (options.retention) await this.prune(instance, world, options.retention);
+		return backup;
+	}
+
+	/**
+	 * Backs up every world of the game directory.
+	 */
+	public async createAll(instance: string | null, options: BackupOptions = {}): Promise<WorldBackup[]> {
+		const backups: WorldBackup[] = [];
+		for (const world of await this.getWorlds(instance)) {
+			backups.push(await this.create(instance, world, options));
+		}
+		return backups;
+	}
+
+	/**
+	 * Tells whether launching with this version and loader changes what the game directory was
+	 * last played with, according to the playtime history. Worlds never played are not at risk.
+	 *
+	 * @param loader The installed loader, with the build it resolved to rather than `'latest'`
+	 * @returns Why the worlds should be backed up, or `null` if nothing changed
+	 */
+	public async detectChange(instance: string | null, minecraftVersion: string, loader: WorldBackup['loader']): Promise<BackupReason | null> {
+		const [lastSession] = await new PlaytimeHistory(this.root).getSessions(instance, 1);
+		if (!lastSession) return null;
+		if (lastSession.version !== minecraftVersion) return 'version_change';
+		if ((lastSession.loader?.type ?? null) !== (loader?.type ?? null)) return 'loader_change';
+		if ((lastSession.loader?.build ?? null) !== (loader?.build ?? null)) return 'loader_change';
+		return null;
+	}
+
+	/**
+	 * Deletes the backups of a world that the retention rules do not keep.
+	 *
+	 * @returns The deleted backups
+	 */
+	public async prune(instance: string | null, world: string, retention: BackupRetention): Promise<WorldBackup[]> {
+		const expired = this.selectExpired(await this.list(instance, world), retention);
+		for (const backup of expired) await this.delete(instance, backup.id);
+		return expired;
+	}
+
+	/**
+	 * Picks the backups no retention rule keeps, from a list sorted newest first as list()
+	 * returns it. Nothing is deleted, so this also previews what prune() would remove.
+	 */
+	public selectExpired(backups: WorldBackup[], retention: BackupRetention): WorldBackup[] {
+		const { keepLast = 0, daily = 0, weekly = 0 } = retention;
+		if (keepLast <= 0 && daily <= 0 && weekly <= 0) return [];
+
+		const kept = new Set<WorldBackup>(backups.slice(0, Math.max(keepLast, 0)));
+		const keepNewestPerPeriod = (getPeriod: (date: Date) => string, count: number) => {
+			const periods = new Set<string>();
+			for (const backup of backups) {
+				const period = getPeriod(new Date(backup.createdAt));
+				if (periods.has(period)) continue;
+				if (periods.size >= count) break;
+				periods.add(period);
+				kept.add(backup);
+			}
+		};
+		const getDay = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+		// Weeks start on Monday
+		const getWeek = (date: Date) => getDay(new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7));
+		keepNewestPerPeriod(getDay, daily);
+		keepNewestPerPeriod(getWeek, weekly);
+
+		return backups.filter(backup => !kept.has(backup));
+	}
+
+	/**
+	 * Deletes a backup and its archive.
+	 *
+	 * @returns `false` if there was no such backup
+	 */
+	public async delete(instance: string | null, id: string): Promise<boolean> {
+		const backups = this.read(instance);
+		const backup = backups.find(entry => entry.id === id);
+		if (!backup) return false;
+
+		try {
+			fs.rmSync(backup.file, { force: true });
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to delete ${backup.file}: ${err.message}`, backup.file, 'delete');
+		}
+		this.write(instance, backups.filter(entry => entry !== backup));
+		this.emit('deleted', backup);
+		return true;
+	}
+
+	/**
+	 * Checks that an archive is intact: its checksum, that it has every file it was written
+	 * with including `level.dat`, and the CRC of each file.
+	 */
+	public async verify(instance: string | null, id: string): Promise<BackupVerification> {
+		const backup = await this.getBackup(instance, id);
+		const problems: string[] = [];
+
+		const sha1 = await getFileHash(backup.file);
+		if (sha1 !== backup.sha1) problems.push(`Archive checksum is ${sha1}, expected ${backup.sha1}`);
+
+		let files: ReturnType<Unzipper['getEntries']>;
+		try {
+			files = new Unzipper(backup.file).getEntries().filter(entry => !entry.isDirectory);
+		} catch (err: any) {
+			return { valid: false, fileCount: 0, problems: [...problems, `Archive cannot be read: ${err.message}`] };
+		}
+
+		if (files.length !== backup.fileCount) problems.push(`Archive has ${files.length} files, expected ${backup.fileCount}`);
+		if (!files.some(entry => entry.entryName === `${backup.world}/level.dat`)) problems.push('level.dat is missing');
+
+		files.forEach((entry, index) => {
+			try {
+				if (zlib.crc32(entry.getData()) !== entry.crc32) problems.push(`${entry.entryName} is corrupted`);
+			} catch (err: any) {
+				problems.push(`${entry.entryName} cannot be extracted: ${err.message}`);
+			}
+			this.emit('progress', index + 1, files.length, backup.world);
+		});
+
+		return { valid: problems.length === 0, fileCount: files.length, problems };
+	}
+
+	/**
+	 * Restores a backup after verifying it. The archive is extracted next to the world, which
+	 * is then swapped with the extracted copy, so a failed restore leaves the world as it was.
+	 *
+	 * @returns The folder name of the restored world in `saves/`
+	 */
+	public async restore(instance: string | null, id: string, options: RestoreOptions = {}): Promise<string> {
+		const backup = await this.getBackup(instance, id);
+		const verification = await this.verify(instance, id);
+		if (!verification.valid) {
+			throw new ValidationError(`Backup ${id} is corrupted: ${verification.problems.join('; ')}`,
+				backup.sha1, undefined, backup.file, ErrorCodes.FILE_CORRUPTED);
+		}
+
+		const folder = options.folder ?? backup.world;
+		this.checkFolderName(folder);
+		const saves = `${this.getGameDirectory(instance)}/${SAVES_DIRECTORY}`;
+		const target = `${saves}/${folder}`;
+		const staging = `${saves}/.${folder}.restoring`;
+		const replaced = `${saves}/.${folder}.replaced`;
+
+		if (options.backupCurrent !== false && fs.existsSync(`${target}/level.dat`)) {
+			await this.create(instance, folder, { reason: 'before_restore' });
+		}
+
+		try {
+			fs.rmSync(staging, { recursive: true, force: true });
+			this.extract(backup, staging);
+
+			fs.rmSync(replaced, { recursive: true, force: true });
+			if (fs.existsSync(target)) fs.renameSync(target, replaced);
+			try {
+				fs.renameSync(staging, target);
+			} catch (err) {
+				if (fs.existsSync(replaced)) fs.renameSync(replaced, target);
+				throw err;
+			}
+			fs.rmSync(replaced, { recursive: true, force: true });
+		} catch (err: any) {
+			fs.rmSync(staging, { recursive: true, force: true });
+			throw new FileSystemError(`Failed to restore ${id}: ${err.message}`, target, 'write');
+		}
+
+		this.emit('restored', backup, folder);
+		return folder;
+	}
+
+	/**
+	 * Rejects world folder names that would point outside `saves/`.
+	 */
+	private checkFolderName(folder: string): void {
+		if (!folder || folder === '.' || /[\\/]/.test(folder) || folder.includes('..')) {
+			throw new ConfigurationError(`Invalid world folder name "${folder}"`, 'folder', folder, ErrorCodes.INVALID_PATH);
+		}
+	}
+
+	private getGameDirectory(instance: string | null): string {
+		return instance ? `${this.root}/instances/${instance}` : this.root;
+	}
+
+	private getBackupsDirectory(instance: string | null): string {
+		return `${this.getGameDirectory(instance)}/${BACKUPS_DIRECTORY}`;
+	}
+
+	private getArchive(instance: string | null, id: string): string {
+		return `${this.getBackupsDirectory(instance)}/${id}.zip`;
+	}
+
+	private async getBackup(instance: string | null, id: string): Promise<WorldBackup> {
+		const backup = await this.get(instance, id);
+		if (!backup) throw new ConfigurationError(`Backup ${id} was not found`, 'id', id, ErrorCodes.BACKUP_NOT_FOUND);
+		return backup;
+	}
+
+	/**
+	 * Names archives after their local date like the game does, e.g. "World/2024-05-01_18-30-00".
+	 */
+	private getUniqueId(instance: string | null, world: string, date: Date): string {
+		const pad = (value: number) => String(value).padStart(2, '0');
+		const name = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+		let id = `${world}/${name}`;
+		for (let i = 2; fs.existsSync(this.getArchive(instance, id)); i++) id = `${world}/${name}_${i}`;
+		return id;
+	}
+
+	/**
+	 * Lists a world's files and directories relative to it; directories end with "/".
+	 */
+	private listEntries(directory: string, prefix: string = ''): string[] {
+		const entries: string[] = [];
+		for (const entry of fs.readdirSync(`${directory}/${prefix}`, { withFileTypes: true })) {
+			if (entry.isDirectory()) {
+				entries.push(`${prefix}${entry.name}/`, ...this.listEntries(directory, `${prefix}${entry.name}/`));
+			} else if (entry.isFile() && !(prefix === '' && SKIPPED_FILES.includes(entry.name))) {
+				entries.push(`${prefix}${entry.name}`);
+			}
+		}
+		return entries;
+	}
+
+	private extract(backup: WorldBackup, destination: string): void {
+		const prefix = `${backup.world}/`;
+		const base = path.resolve(destination);
+		const entries = new Unzipper(backup.file).getEntries().filter(entry => entry.entryName.startsWith(prefix));
+		const total = entries.filter(entry => !entry.isDirectory).length;
+
+		fs.mkdirSync(base, { recursive: true });
+		let processed = 0;
+		for (const entry of entries) {
+			const file = path.resolve(base, entry.entryName.slice(prefix.length));
+			if (file !== base && !file.startsWith(base + path.sep)) {
+				throw new Error(`${entry.entryName} points outside of the world`);
+			}
+			if (entry.isDirectory) {
+				fs.mkdirSync(file, { recursive: true });
+				continue;
+			}
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, entry.getData());
+			this.emit('progress', ++processed, total, backup.world);
+		}
+	}
+
+	private read(instance: string | null): WorldBackup[] {
+		const file = `${this.getBackupsDirectory(instance)}/${INDEX_FILE}`;
+		if (!fs.existsSync(file)) return [];
+		try {
+			const index: BackupIndex = JSON.parse(fs.readFileSync(file, 'utf-8'));
+			return (index.backups ?? []).map(backup => ({ ...backup, file: this.getArchive(instance, backup.id) }));
+		} catch (err: any) {
+			console.warn(`[WorldBackupManager] Failed to read ${file}: ${err.message}`);
+			return [];
+		}
+	}
+
+	private write(instance: string | null, backups: WorldBackup[]): void {
+		const file = `${this.getBackupsDirectory(instance)}/${INDEX_FILE}`;
+		const index: BackupIndex = { backups: backups.map(({ file: archive, ...backup }) => backup) };
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(`${file}.tmp`, JSON.stringify(index, null, 4));
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to write ${file}: ${err.message}`, file, 'write');
+		}
+	}
+}
@@ -0,0 +1,198 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import { getFileFromArchive } from '../utils/Index.js';
+import { NbtCompound, readNbtFile, simplifyNbt } from '../utils/Nbt.js';
+import InstanceManager from './InstanceManager.js';
+
+export type GameMode = 'survival' | 'creative' | 'adventure' | 'spectator';
+export type Difficulty = 'peaceful' | 'easy' | 'normal' | 'hard';
+
+/**
+ * What the world list shows about a world, read from its `level.dat`.
+ */
+export interface WorldSummary {
+	folder: string;               // Directory name in `saves/`
+	path: string;                 // Absolute path
+	name: string;                 // `LevelName`, or the folder name
+	gameMode: GameMode;
+	hardcore: boolean;
+	difficulty: Difficulty | null; // `null` if not recorded (very old worlds)
+	difficultyLocked: boolean;
+	allowCommands: boolean;       // Cheats
+	version: {
+		name: string | null;      // `Data.Version.Name`, e.g. "1.20.4"; `null` before 1.9
+		id: number | null;        // `Data.Version.Id`
+		snapshot: boolean;
+	};
+	dataVersion: number | null;   // `Data.DataVersion`; `null` before 1.9
+	lastPlayed: Date | null;
+	seed: string | null;          // World seed, as a string since it is a 64-bit integer
+	icon: Buffer | null;          // Contents of `icon.png`
+	size: number;                 // Bytes on disk
+	newerThanInstance: boolean | null; // Saved by a newer game than the instance; `null` if unknown
+}
+
+const SAVES_DIRECTORY = 'saves';
+const GAME_MODES: GameMode[] = ['survival', 'creative', 'adventure', 'spectator'];
+const DIFFICULTIES: Difficulty[] = ['peaceful', 'easy', 'normal', 'hard'];
+
+/**
+ * Lists the worlds of an instance from their `level.dat`, and tells which ones
+ * were saved by a newer version of the game than the instance runs.
+ */
+export default class WorldManager {
+	private readonly root: string;
+	private readonly dataVersions = new Map<string, number | null>();
+
+	/**
+	 * @param root Absolute path to Minecraft's root directory (the launch option `path`).
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	/**
+	 * Lists the worlds in `saves/`, most recently played first, like the game does.
+	 *
+	 * @param instance         Instance id, or `null` for the root directory
+	 * @param minecraftVersion Version the instance runs. Defaults to the instance's saved version.
+	 */
+	public async list(instance: string | null, minecraftVersion?: string): Promise<WorldSummary[]> {
+		const directory = this.getDirectory(instance);
+		if (!fs.existsSync(directory)) return [];
+		const version = minecraftVersion ?? await this.getInstanceVersion(instance);
+
+		const worlds: WorldSummary[] = [];
+		for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+			if (!entry.isDirectory()) continue;
+			const world = await this.read(`${directory}/${entry.name}`, version);
+			if (world) worlds.push(world);
+		}
+		return worlds.sort((a, b) => (b.lastPlayed?.getTime() ?? 0) - (a.lastPlayed?.getTime() ?? 0));
+	}
+
+	/**
+	 * Reads one world, or returns `null` if the folder has no readable `level.dat`.
+	 */
+	public async get(instance: string | null, folder: string, minecraftVersion?: string): Promise<WorldSummary | null> {
+		const worldPath = `${this.getDirectory(instance)}/${folder}`;
+		if (!fs.existsSync(worldPath)) return null;
+		return this.read(worldPath, minecraftVersion ?? await this.getInstanceVersion(instance));
+	}
+
+	/**
+	 * Returns the data version of a Minecraft version from `version.json` in its client jar,
+	 * or `null` if the jar is not downloaded or predates 1.14, which added the file.
+	 */
+	public async getDataVersion(minecraftVersion: string): Promise<number | null> {
+		if (this.dataVersions.has(minecraftVersion)) return this.dataVersions.get(minecraftVersion);
+
+		let dataVersion: number | null = null;
+		const jar = `${this.root}/versions/${minecraftVersion}/${minecraftVersion}.jar`;
+		if (fs.existsSync(jar)) {
+			try {
+				const content = await getFileFromArchive(jar, 'version.json');
+				if (content) dataVersion = JSON.parse(content.toString('utf-8')).world_version ?? null;
+			} catch (err: any) {
+				console.warn(`[WorldManager] Failed to read version.json from ${jar}: ${err.message}`);
+			}
+		}
+		this.dataVersions.set(minecraftVersion, dataVersion);
+		return dataVersion;
+	}
+
+	private getDirectory(instance: string | null): string {
+		const gameDirectory = instance ? `${this.root}/instances/${instance}` : this.root;
+		return `${gameDirectory}/${SAVES_DIRECTORY}`;
+	}
+
+	private async getInstanceVersion(instance: string | null): Promise<string | null> {
+		if (!instance) return null;
+		const config = await new InstanceManager(this.root).get(instance).catch((): null => null);
+		return config?.version ?? null;
+	}
+
+	/**
+	 * Reads `level.dat`, falling back to the `level.dat_old` backup the game keeps.
+	 */
+	private async readLevel(worldPath: string): Promise<NbtCompound | null> {
+		for (const name of ['level.dat', 'level.dat_old']) {
+			const file = `${worldPath}/${name}`;
+			if (!fs.existsSync(file)) continue;
+			try {
+				const data = (await readNbtFile(file)).value.Data;
+				if (data?.type === 'compound') return data.value;
+			} catch (err: any) {
+				console.warn(`[WorldManager] Failed to read ${file}: ${err.message}`);
+			}
+		}
+		return null;
+	}
+
+	private async read(worldPath: string, minecraftVersion: string | null): Promise<WorldSummary | null> {
+		const level = await this.readLevel(worldPath);
+		if (!level) return null;
+		const data = simplifyNbt(level);
+
+		// 1.16+ keeps the seed in WorldGenSettings, older versions in RandomSeed
+		const seed = data.WorldGenSettings?.seed ?? data.RandomSeed;
+		const iconPath = `${worldPath}/icon.png`;
+		const world: WorldSummary = {
+			folder: path.basename(worldPath),
+			path: worldPath,
+			name: data.LevelName || path.basename(worldPath),
+			gameMode: GAME_MODES[data.GameType] ?? 'survival',
+			hardcore: !!data.hardcore,
+			difficulty: data.Difficulty !== undefined ? DIFFICULTIES[data.Difficulty] ?? null : null,
+			difficultyLocked: !!data.DifficultyLocked,
+			allowCommands: !!data.allowCommands,
+			version: {
+				name: data.Version?.Name ?? null,
+				id: data.Version?.Id ?? null,
+				snapshot: !!data.Version?.Snapshot
+			},
+			dataVersion: data.DataVersion ?? null,
+			lastPlayed: data.LastPlayed ? new Date(Number(data.LastPlayed)) : null,
+			seed: seed !== undefined ? String(seed) : null,
+			icon: fs.existsSync(iconPath) ? fs.readFileSync(iconPath) : null,
+			size: this.getSize(worldPath),
+			newerThanInstance: null
+		};
+		world.newerThanInstance = await this.isNewer(world, minecraftVersion);
+		return world;
+	}
+
+	/**
+	 * Compares data versions when both are known, otherwise release names.
+	 */
+	private async isNewer(world: WorldSummary, minecraftVersion: string | null): Promise<boolean | null> {
+		if (!minecraftVersion) return null;
+		const instanceDataVersion = await this.getDataVersion(minecraftVersion);
+		if (instanceDataVersion !== null && world.dataVersion !== null) return world.dataVersion > instanceDataVersion;
+
+		const instanceVersion = semver.valid(semver.coerce(minecraftVersion));
+		// Worlds without a version were last saved before 1.9
+		if (!world.version.name && world.dataVersion === null) {
+			return instanceVersion && semver.gte(instanceVersion, '1.9.0') ? false : null;
+		}
+		const worldVersion = world.version.name && semver.valid(semver.coerce(world.version.name));
+		if (!worldVersion || !instanceVersion || world.version.snapshot) return null;
+		return semver.gt(worldVersion, instanceVersion);
+	}
+
+	private getSize(directory: string): number {
+		let size = 0;
+		for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+			const full = `${directory}/${entry.name}`;
+			if (entry.isDirectory()) size += this.getSize(full);
+			else if (entry.isFile()) size += fs.statSync(full).size;
+		}
+		return size;
+	}
+}
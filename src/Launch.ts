@@ -3,7 +3,6 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 
-import { EventEmitter } from 'events';
 import path from 'path';
 import fs from 'fs';
 import { spawn, ChildProcess } from 'child_process';
@@ -19,7 +18,24 @@ import argumentsMinecraft from './Minecraft/Minecraft-Arguments.js';
 import { isold } from './utils/Index.js';
 import Downloader from './utils/Downloader.js';
 import { MemoryManager, StringBuilder } from './utils/MemoryManager.js';
-import PerformanceMonitor from './utils/PerformanceMonitor.js';
+import PerformanceMonitor, { PerformanceMetrics } from './utils/PerformanceMonitor.js';
+import TypedEmitter from './utils/TypedEmitter.js';
+import MetadataCache, { CacheUsage } from './utils/MetadataCache.js';
+import InstanceManager from './Instance/InstanceManager.js';
+import SessionManager, { SessionRecord } from './Instance/SessionManager.js';
+import PlaytimeHistory from './Instance/PlaytimeHistory.js';
+import CrashAnalyzer, { CrashReport } from './Minecraft/Minecraft-Crash.js';
+import MemorySizer, { MemoryDecision } from './Minecraft/Minecraft-Memory.js';
+import type { JvmPresetName } from './Minecraft/Minecraft-JvmPresets.js';
+import OptionsFile, { OptionValue } from './Instance/OptionsFile.js';
+import ResourcePackManager, { ResourcePack } from './Instance/ResourcePackManager.js';
+import WorldBackupManager, { BackupRetention, WorldBackup } from './Instance/WorldBackupManager.js';
+import GameLogParser, { LogBuffer, LogQuery, LogRecord } from './Minecraft/Minecraft-Log.js';
+
+/**
+ * Number of output lines kept for crash analysis.
+ */
+const OUTPUT_TAIL_LINES = 200;
 
 type loader = {
 	/**
@@ -62,18 +78,54 @@ type screen = {
 	fullscreen?: boolean
 }
 
+/**
+ * Quick Play options: start the game directly in a world, on a server or in a Realm.
+ * Set only one of `singleplayer`, `multiplayer` or `realms`.
+ */
+type quickPlay = {
+	/**
+	 * Folder name of the world to open, in the instance's `saves` directory.
+	 */
+	singleplayer?: string,
+	/**
+	 * Server to join, as `host` or `host:port`.
+	 * 
+	 * On versions without Quick Play, falls back to the `--server`/`--port` arguments.
+	 */
+	multiplayer?: string,
+	/**
+	 * ID of the Realm to join.
+	 */
+	realms?: string,
+	/**
+	 * File the game writes its Quick Play log to. Relative to the game directory.
+	 * 
+	 * Default: `'quickPlay/log.json'`.
+	 */
+	path?: string
+}
+
 /**
  * Memory limits
  */
 type memory = {
 	/**
 	 * Sets the `-Xms` JVM argument. This is the initial memory usage.
+	 * 
+	 * `'auto'` uses half of the maximum.
 	 */
 	min?: string,
 	/**
 	 * Sets the `-Xmx` JVM argument. This is the limit of memory usage.
+	 * 
+	 * `'auto'` picks a value from the system's total and free memory, the number of mods,
+	 * the loader and the Minecraft version. The choice is reported by the `memory` event.
 	 */
-	max?: string
+	max?: string,
+	/**
+	 * Upper limit for an `'auto'` maximum (e.g. `'8G'`). Ignored for explicit sizes.
+	 */
+	cap?: string
 }
 
 /** 
@@ -141,6 +193,9 @@ export type LaunchOPTS = {
 	 * Path to instance directory. Relative to absolute path to Minecraft's root directory (config option `path`).
 	 * This separates game files (e.g. versions, libraries, assets) from game data (e.g. worlds, resourcepacks, options).
 	 * 
+	 * If the instance was created with `InstanceManager`, its saved version, loader, memory, Java and
+	 * argument settings are used for any of those options that are not passed explicitly.
+	 * 
 	 * Example: `'PokeMoonX'`
 	 */
 	instance?: string,
@@ -152,12 +207,40 @@ export type LaunchOPTS = {
 	 * How many concurrent downloads can be in progress at once.
 	 */
 	downloadFileMultiple?: number,
+	/**
+	 * Maximum download speed in bytes per second, shared by every file. Can be changed
+	 * during the launch with `setBandwidthLimit()`.
+	 * 
+	 * Default: no limit.
+	 */
+	bandwidthLimit?: number,
+	/**
+	 * Maximum parallel downloads per host name, e.g. `{ 'resources.download.minecraft.net': 8 }`.
+	 * Merged over the defaults, which limit the Maven repositories to 4.
+	 */
+	hostConcurrency?: Record<string, number>,
+	/**
+	 * Directory of a file store shared with other roots. Libraries, assets and Java runtime
+	 * files are kept there once, by SHA-1, and hard-linked into `path` (copied when the store
+	 * is on another drive). Run `new FileStore(store).gc()` to remove files no root uses.
+	 * 
+	 * Default: no store.
+	 */
+	store?: string,
 	/**
 	 * Should the launcher bypass offline mode?
 	 * 
 	 * If `true`, the launcher will not check if the user is online.
 	 */
 	bypassOffline?: boolean,
+	/**
+	 * Should the launcher run without network access?
+	 * 
+	 * If `true`, version metadata, asset indexes, Java runtimes and loader profiles are read from
+	 * the cache in `<path>/cache`, and the launch is refused if a required file is missing on disk.
+	 * The same cache is used automatically when the network is unreachable.
+	 */
+	offline?: boolean,
 	intelEnabledMac?: boolean,
 	/**
 	 * Loader config
@@ -180,8 +263,18 @@ export type LaunchOPTS = {
 	ignored: string[],
 	/**
 	 * Custom JVM arguments. Read more on [wiki.vg](https://wiki.vg/Launching_the_game#JVM_Arguments)
+	 * 
+	 * They are merged over the preset's flags: an argument setting the same option (e.g. `-Xmx`)
+	 * replaces the launcher's, and choosing another garbage collector drops the preset's GC flags.
 	 */
 	JVM_ARGS: string[],
+	/**
+	 * Garbage collector and tuning flags: `'vanilla'` (default, the official launcher's G1 settings),
+	 * `'aikar'`, `'zgc-generational'`, `'shenandoah'` or `'minimal'` (no flags).
+	 * 
+	 * A preset that needs a newer Java falls back to `'aikar'`, and flags the Java version does not accept are left out.
+	 */
+	jvmPreset?: JvmPresetName,
 	/**
 	 * Custom game arguments. Read more on [wiki.vg](https://wiki.vg/Launching_the_game#Game_Arguments)
 	 */
@@ -199,24 +292,287 @@ export type LaunchOPTS = {
 	 */
 	memory: memory,
 	/**
-	 * Resource packs to enable.
+	 * Join a world, server or Realm as soon as the game starts.
+	 */
+	quickPlay?: quickPlay,
+	/**
+	 * Command the JVM is started through. The first element is the executable
+	 * (a path, or a name looked up in `PATH`), the rest are its arguments.
+	 * 
+	 * Example: `['gamemoderun']`, `['mangohud', '--dlsym']`
+	 */
+	wrapper?: string[],
+	/**
+	 * Extra environment variables for the game process, added to the launcher's environment.
+	 * Merged with the instance's saved variables; these win on conflicts.
+	 * 
+	 * Example: `{ __GL_THREADED_OPTIMIZATIONS: '1' }`
+	 */
+	env?: Record<string, string>,
+	/**
+	 * Environment variables removed from the game process's environment.
+	 * Merged with the instance's saved list.
+	 */
+	envUnset?: string[],
+	/**
+	 * Custom log4j2 XML configuration used instead of the one shipped with the version.
+	 * Relative to `path` unless absolute.
+	 * 
+	 * Make sure your configuration keeps the Log4Shell mitigations (`%msg{nolookups}`).
+	 */
+	log4jConfig?: string,
+	/**
+	 * How many parsed log records to keep in memory for `getLogs()`.
+	 * 
+	 * Default: `1000`.
+	 */
+	logBufferSize?: number,
+	/**
+	 * Options written to `options.txt` the first time the game directory is launched, before the
+	 * game creates its own (e.g. `{ lang: 'fr_fr', guiScale: 2, 'key_key.sprint': 'key.keyboard.left.control' }`).
+	 * Existing options are never overwritten.
+	 */
+	defaultOptions?: Record<string, OptionValue>,
+	/**
+	 * Resource packs to enable. `filePath` is copied into the game directory's
+	 * `resourcepacks` folder as `fileName` if it is not there yet.
 	 */
 	resourcePacks?: Array<{
 		name: string,
 		fileName: string,
 		filePath: string
 	}>;
+	/**
+	 * Backs up every world in `saves/` to `backups/<world>/` before the first launch with another
+	 * Minecraft version, loader or loader build than the game directory was last played with.
+	 * 
+	 * Default: `{ enabled: true, retention: { keepLast: 5, daily: 7, weekly: 4 } }`.
+	 */
+	worldBackups?: {
+		enabled?: boolean,
+		retention?: BackupRetention
+	};
+};
+
+/**
+ * Options accepted by `Launch()` and `plan()`. Only `authenticator` and `path` are required:
+ * everything else falls back to the instance's saved settings, then to the defaults.
+ */
+export type LaunchInput = Partial<LaunchOPTS> & Pick<LaunchOPTS, 'authenticator' | 'path'>;
+
+/**
+ * A group of files of the same type that a launch would download.
+ */
+export type LaunchPlanFileGroup = {
+	type: string,
+	count: number,
+	/**
+	 * Total size in bytes. Files with an unknown size count as `0`.
+	 */
+	size: number,
+	files: Array<{ path: string, size?: number, url?: string }>
+};
+
+/**
+ * Result of `Launch.plan()`: what a launch with the same options would download and run.
+ */
+export type LaunchPlan = {
+	/**
+	 * Resolved Minecraft version (e.g. `'1.20.4'` for `'latest_release'`).
+	 */
+	version: string,
+	loader: {
+		type: string,
+		build: string,
+		/**
+		 * `false` if the loader still has to be installed, in which case its files and arguments are not in the plan.
+		 */
+		installed: boolean
+	} | null,
+	java: {
+		path: string,
+		majorVersion: number,
+		/**
+		 * Mojang runtime component (e.g. `'java-runtime-delta'`), or `null` for a custom `java.path`.
+		 */
+		component: string | null,
+		custom: boolean,
+		/**
+		 * Whether the runtime has to be downloaded first.
+		 */
+		download: boolean
+	},
+	downloads: {
+		totalFiles: number,
+		totalSize: number,
+		groups: Record<string, LaunchPlanFileGroup>
+	},
+	memory: MemoryDecision,
+	/**
+	 * Full command line with access tokens and account identifiers replaced by `????????`.
+	 */
+	command: {
+		java: string,
+		arguments: string[],
+		line: string
+	},
+	warnings: string[]
+};
+
+/**
+ * Payload of the `close` event.
+ */
+export type LaunchCloseEvent = {
+	message: string,
+	code: number | null,
+	signal: NodeJS.Signals | null,
+	/**
+	 * How long the game ran, in milliseconds.
+	 */
+	runtime: number,
+	isCrash: boolean,
+	/**
+	 * Explanation of the crash, when `isCrash` is `true`.
+	 */
+	crashReport: CrashReport | null,
+	timeSinceLastOutput: number,
+	instanceId: string | undefined
+};
+
+/**
+ * Payload of the `complete` event, emitted once the game process is running.
+ */
+export type LaunchCompleteEvent = {
+	message: string,
+	process: number | undefined,
+	/**
+	 * Resolved Minecraft version (e.g. `'1.20.4'` for `'latest_release'`).
+	 */
+	version: string,
+	session: SessionRecord | null,
+	performance: PerformanceMetrics
+};
+
+/**
+ * Payload of the `cancelled` event.
+ */
+export type LaunchCancelledEvent = {
+	message: string,
+	wasLaunching: boolean,
+	hadProcess: boolean,
+	timestamp: string
+};
+
+/**
+ * Payload of the `error` event: an `OriCoreError`, another `Error`, or an error object
+ * returned by one of the launch steps (version, Java, loader or arguments resolution).
+ */
+export type LaunchErrorEvent = Error | {
+	error: any,
+	message?: string,
+	code?: string,
+	[key: string]: any
 };
 
+/**
+ * Steps of a launch, reported by the `phase` event.
+ */
+export type LaunchPhase =
+	| 'preparing'          // Resolving the version, libraries, assets and Java
+	| 'downloading'        // Downloading missing files
+	| 'installing_loader'  // Installing or checking the mod loader
+	| 'backing_up'         // Backing up worlds before a version or loader change
+	| 'starting'           // Spawning the game process
+	| 'running'            // The game is running (`complete` was emitted)
+	| 'closed'             // The game exited (`close` was emitted)
+	| 'failed';            // The launch stopped with an `error`
+
+/**
+ * Result of `Launch.run()`.
+ */
+export type LaunchResult = {
+	process: ChildProcess,
+	pid: number,
+	/**
+	 * Resolved Minecraft version (e.g. `'1.20.4'` for `'latest_release'`).
+	 */
+	version: string,
+	session: SessionRecord | null,
+	performance: PerformanceMetrics
+};
+
+/**
+ * Events emitted by `Launch`.
+ */
+export interface LaunchEvents {
+	/** Current step of the launch */
+	phase: [phase: LaunchPhase];
+	/** Bytes downloaded so far, total bytes and the type of file being downloaded */
+	progress: [downloaded: number, total: number, element: string];
+	/** Download speed in bytes per second */
+	speed: [bytesPerSecond: number];
+	/** Estimated download time remaining in seconds */
+	estimated_time: [seconds: number];
+	/** Files checked so far, total files and what is being checked (loader install) */
+	check: [checked: number, total: number, element: string];
+	/** Description of the file being extracted */
+	extract: [element: string];
+	/** Output of the Forge/NeoForge processors */
+	patch: [output: string];
+	downloads_complete: [event: { message: string, fileCount: number }];
+	/** Cached metadata used instead of the network */
+	offline_cache: [usage: CacheUsage];
+	/** Heap sizes used for the game, and why they were chosen when `memory` is `'auto'` */
+	memory: [decision: MemoryDecision];
+	/** Files archived so far, total files and the world being backed up */
+	backup_progress: [processed: number, total: number, world: string];
+	/** World backed up before a version or loader change */
+	world_backup: [backup: WorldBackup];
+	/** Raw game output, and the launch command line */
+	data: [output: string];
+	/** Game output parsed into log records */
+	log: [record: LogRecord];
+	complete: [event: LaunchCompleteEvent];
+	close: [event: LaunchCloseEvent];
+	cancelled: [event: LaunchCancelledEvent];
+	error: [error: LaunchErrorEvent];
+	download_error: [error: DownloadError];
+	network_error: [error: NetworkError];
+	ori_error: [error: OriCoreError];
+	recoverable_error: [error: Error];
+	fatal_error: [error: Error];
+}
+
+/**
+ * One event yielded by `Launch.events()`.
+ */
+export type LaunchEventRecord = {
+	[E in keyof LaunchEvents]: { type: E, args: LaunchEvents[E] }
+}[keyof LaunchEvents];
+
+/**
+ * Every event name of `LaunchEvents`, for subscribing to all of them at runtime.
+ */
+const LAUNCH_EVENTS: Array<keyof LaunchEvents> = [
+	'phase', 'progress', 'speed', 'estimated_time', 'check', 'extract', 'patch', 'downloads_complete',
+	'offline_cache', 'memory', 'backup_progress', 'world_backup', 'data', 'log', 'complete', 'close', 'cancelled', 'error', 'download_error',
+	'network_error', 'ori_error', 'recoverable_error', 'fatal_error'
+];
+
 import { 
     OriCoreError, 
     NetworkError, 
     DownloadError, 
+    ConfigurationError,
+    VersionError,
+    JavaError,
+    LaunchError,
     isRecoverableError,
+    wrapError,
     ErrorCodes 
 } from './utils/Errors.js';
 
-export default class Launch extends EventEmitter {
+export default class Launch extends TypedEmitter<LaunchEvents> {
 	options: LaunchOPTS;
 	private minecraftProcess: ChildProcess | null = null;
 	private downloader: Downloader | null = null;
@@ -226,6 +582,10 @@ export default class Launch extends EventEmitter {
 	private memoryManager: MemoryManager;
 	private stringBuilderPool: StringBuilder[] = [];
 	private performanceMonitor: PerformanceMonitor;
+	private metadataCache: MetadataCache | null = null;
+	private logBuffer: LogBuffer = new LogBuffer();
+	// Memory settings as given, before 'auto' is resolved into options.memory
+	private requestedMemory: memory = {};
 
 	constructor() {
 		super();
@@ -233,7 +593,250 @@ export default class Launch extends EventEmitter {
 		this.performanceMonitor = PerformanceMonitor.getInstance();
 	}
 
-	async Launch(opt: LaunchOPTS) {
+	async Launch(opt: LaunchInput) {
+		const error = await this.setOptions(opt);
+		if (error) {
+			this.emit("error", error);
+			this.emit('phase', 'failed');
+			return error;
+		}
+		this.start();
+	}
+
+	/**
+	 * Launches the game and waits until it is running.
+	 *
+	 * @param opt The same options accepted by `Launch()`
+	 * @returns   The running game process, its resolved version and launch metrics
+	 * @throws    An `OriCoreError` if the launch fails or is cancelled
+	 */
+	public async run(opt: LaunchInput): Promise<LaunchResult> {
+		const optionsError = await this.setOptions(opt);
+		if (optionsError) {
+			throw new ConfigurationError(optionsError.error, 'authenticator', null, ErrorCodes.MISSING_REQUIRED_FIELD);
+		}
+
+		let completed: LaunchCompleteEvent | null = null;
+		let failure: LaunchErrorEvent | null = null;
+		const onComplete = (event: LaunchCompleteEvent) => { completed = event; };
+		// The last error is the one that stopped the launch; earlier ones may have been retried
+		const onError = (error: LaunchErrorEvent) => { failure = error; };
+		this.on('complete', onComplete);
+		this.on('error', onError);
+		try {
+			await this.start();
+		} finally {
+			this.off('complete', onComplete);
+			this.off('error', onError);
+		}
+
+		if (completed && this.minecraftProcess) {
+			return {
+				process: this.minecraftProcess,
+				pid: this.minecraftProcess.pid,
+				version: completed.version,
+				session: completed.session,
+				performance: completed.performance
+			};
+		}
+		if (this.isCancelled) {
+			throw new LaunchError('Launch was cancelled', 'cancel', true, ErrorCodes.LAUNCH_CANCELLED);
+		}
+		throw this.toOriCoreError(failure);
+	}
+
+	/**
+	 * Returns an async iterator over this launch's events, in the order they are emitted.
+	 * Iteration ends after `close`, `cancelled` or a `failed` phase, or when the loop exits.
+	 *
+	 * Subscribe before starting the launch so no events are missed:
+	 *
+	 *     const events = launch.events();
+	 *     launch.Launch(options);
+	 *     for await (const event of events) { ... }
+	 */
+	public events(): AsyncIterableIterator<LaunchEventRecord> {
+		const queue: LaunchEventRecord[] = [];
+		const waiting: Array<(result: IteratorResult<LaunchEventRecord>) => void> = [];
+		const listeners = new Map<keyof LaunchEvents, (...args: any[]) => void>();
+		let done = false;
+
+		const finish = () => {
+			if (done) return;
+			done = true;
+			for (const [event, listener] of listeners) this.off(event, listener);
+		};
+
+		for (const type of LAUNCH_EVENTS) {
+			const listener = (...args: any[]) => {
+				if (done) return;
+				const record = { type, args } as LaunchEventRecord;
+				const next = waiting.shift();
+				if (next) next({ value: record, done: false });
+				else queue.push(record);
+
+				if (type === 'close' || type === 'cancelled' || (type === 'phase' && args[0] === 'failed')) {
+					finish();
+					while (waiting.length > 0) waiting.shift()({ value: undefined, done: true });
+				}
+			};
+			listeners.set(type, listener);
+			this.on(type, listener);
+		}
+
+		return {
+			next: () => {
+				if (queue.length > 0) return Promise.resolve({ value: queue.shift(), done: false });
+				if (done) return Promise.resolve({ value: undefined, done: true });
+				return new Promise(resolve => waiting.push(resolve));
+			},
+			return: () => {
+				finish();
+				queue.length = 0;
+				while (waiting.length > 0) waiting.shift()({ value: undefined, done: true });
+				return Promise.resolve({ value: undefined, done: true });
+			},
+			[Symbol.asyncIterator]() {
+				return this;
+			}
+		};
+	}
+
+	/**
+	 * Resolves everything a launch needs (version, libraries, assets, Java, arguments)
+	 * without downloading files or spawning the game.
+	 *
+	 * @param opt The same options accepted by `Launch()`
+	 * @returns   A description of what the launch would download and run
+	 * @throws    An `OriCoreError` if the version, Java runtime or arguments cannot be resolved
+	 */
+	public async plan(opt: LaunchInput): Promise<LaunchPlan> {
+		const optionsError = await this.setOptions(opt);
+		if (optionsError) {
+			throw new ConfigurationError(optionsError.error, 'authenticator', null, ErrorCodes.MISSING_REQUIRED_FIELD);
+		}
+		const warnings: string[] = [];
+
+		const cache = new MetadataCache(this.options.path, this.options.offline);
+		cache.on('cache', (usage: CacheUsage) => {
+			this.emit('offline_cache', usage);
+			warnings.push(`Using cached ${usage.category} metadata for "${usage.key}" (${usage.reason})`);
+		});
+
+		let InfoVersion = await new jsonMinecraft(this.options, cache).GetInfoVersion();
+		if ('error' in InfoVersion) {
+			throw new VersionError(InfoVersion.message, this.options.version, undefined, ErrorCodes.VERSION_NOT_FOUND);
+		}
+		let { json, version } = InfoVersion;
+
+		let libraries = new librariesMinecraft(this.options, cache);
+		let bundle = new bundleMinecraft(this.options);
+		let gameLibraries: any = await libraries.Getlibraries(json);
+		let gameAssetsOther: any = await libraries.GetAssetsOthers(this.options.url);
+		let gameAssets: any = await new assetsMinecraft(this.options, cache).getAssets(json);
+		let gameJava: any = this.options.java.path
+			? { files: [], path: this.options.java.path }
+			: await new javaMinecraft(this.options, cache).getJavaFiles(json, true);
+		if (gameJava.error) {
+			throw new JavaError(gameJava.message, this.options.java.version, undefined, false, ErrorCodes.JAVA_NOT_FOUND);
+		}
+		if (this.options.java.path && !fs.existsSync(this.options.java.path)) {
+			warnings.push(`Java executable ${this.options.java.path} does not exist`);
+		}
+		if (this.options.log4jConfig && !fs.existsSync(this.options.log4jConfig)) {
+			warnings.push(`Log4j configuration ${this.options.log4jConfig} does not exist`);
+		}
+		let filesList: any[] = await bundle.checkBundle([...gameLibraries, ...gameAssetsOther, ...gameAssets, ...gameJava.files], false);
+
+		// Loaders are only resolvable once installed, so use the cached profile if there is one
+		let loaderJson: any = null;
+		if (this.options.loader.enable === true) {
+			loaderJson = new loaderMinecraft(this.options, cache).GetCachedLoader(version) ?? null;
+			if (!loaderJson) {
+				warnings.push(`Loader ${this.options.loader.type} (${this.options.loader.build}) is not installed yet; its files and arguments are not included in this plan`);
+			}
+		}
+
+		const javaPath = this.options.java.path ? this.options.java.path : gameJava.path;
+		// A plan only reports the sizes; options.memory and the `memory` event are left to the launch
+		const memory = this.computeMemory(version, javaPath);
+		const argumentOptions = { ...this.options, memory: { ...this.requestedMemory, min: memory.min, max: memory.max } };
+
+		json.nativesList = gameLibraries.some((lib: any) => lib.type === 'Native');
+		let minecraftArguments: any = await new argumentsMinecraft(argumentOptions).GetArguments(json, loaderJson, false);
+		if (minecraftArguments.code === ErrorCodes.INVALID_JVM_PRESET) {
+			throw new ConfigurationError(minecraftArguments.message, 'jvmPreset', this.options.jvmPreset, minecraftArguments.code);
+		}
+		if (minecraftArguments.error) {
+			throw new VersionError(minecraftArguments.message, version, undefined, minecraftArguments.code);
+		}
+		const jvmPreset = minecraftArguments.jvmPreset;
+		if (jvmPreset) {
+			warnings.push(...jvmPreset.warnings);
+			if (jvmPreset.dropped.length > 0) {
+				warnings.push(`Java ${jvmPreset.javaVersion} does not accept ${jvmPreset.dropped.join(', ')}; left out of the "${jvmPreset.name}" preset`);
+			}
+		}
+		let loaderArguments: any = await new loaderMinecraft(this.options).GetArguments(loaderJson, version);
+		let Arguments = this.assembleArguments(minecraftArguments, loaderArguments);
+
+		const groups: Record<string, LaunchPlanFileGroup> = {};
+		let totalSize = 0;
+		for (const file of filesList) {
+			const type = file.type || 'Other';
+			groups[type] ??= { type, count: 0, size: 0, files: [] };
+			groups[type].count++;
+			groups[type].size += file.size || 0;
+			groups[type].files.push({ path: file.path, size: file.size, url: file.url });
+			totalSize += file.size || 0;
+			if (file.size === undefined) warnings.push(`Size of ${file.path} is unknown`);
+		}
+
+		const redacted = this.redactArguments(Arguments);
+		const wrapper = this.options.wrapper?.length ? this.redactArguments(this.options.wrapper) : [];
+		if (wrapper.length > 0 && !this.resolveExecutable(this.options.wrapper[0])) {
+			warnings.push(`Wrapper command ${this.options.wrapper[0]} was not found`);
+		}
+		return {
+			version,
+			loader: this.options.loader.enable === true
+				? { type: this.options.loader.type, build: this.options.loader.build, installed: !!loaderJson }
+				: null,
+			java: {
+				path: javaPath,
+				majorVersion: Number(this.options.java.version) || json.javaVersion?.majorVersion || 8,
+				component: this.options.java.path ? null : json.javaVersion?.component || 'jre-legacy',
+				custom: !!this.options.java.path,
+				download: filesList.some(file => file.type === 'Java')
+			},
+			downloads: {
+				totalFiles: filesList.length,
+				totalSize,
+				groups
+			},
+			memory,
+			command: {
+				java: javaPath,
+				arguments: redacted,
+				line: [...wrapper, javaPath, ...redacted].join(' ')
+			},
+			warnings
+		};
+	}
+
+	/**
+	 * Applies defaults and the instance's saved settings, then normalises the
+	 * user-supplied launch options. Explicit options always win.
+	 *
+	 * @returns An error object if the options cannot be used, otherwise `null`
+	 */
+	private async setOptions(opt: LaunchInput): Promise<{ error: string } | null> {
+		let instanceOptions: Partial<LaunchOPTS> = {};
+		if (opt?.instance) {
+			const saved = await new InstanceManager(opt.path ?? '.Minecraft').get(opt.instance).catch(() => null);
+			if (saved) instanceOptions = InstanceManager.toLaunchOptions(saved);
+		}
+
 		const defaultOptions: LaunchOPTS = {
 			url: null,
 			authenticator: null,
@@ -245,6 +848,7 @@ export default class Launch extends EventEmitter {
 			intelEnabledMac: false,
 			downloadFileMultiple: 5,
 			bypassOffline: false,
+			offline: false,
 
 			loader: {
 				path: './loader',
@@ -259,6 +863,7 @@ export default class Launch extends EventEmitter {
 			ignored: [],
 			JVM_ARGS: [],
 			GAME_ARGS: [],
+			jvmPreset: 'vanilla',
 
 			java: {
 				path: null,
@@ -276,11 +881,23 @@ export default class Launch extends EventEmitter {
 				min: '1G',
 				max: '2G'
 			},
+			...instanceOptions,
 			...opt,
+			// Environment settings add up instead of replacing the instance's
+			env: { ...instanceOptions.env, ...opt?.env },
+			envUnset: [...new Set([...(instanceOptions.envUnset ?? []), ...(opt?.envUnset ?? [])])],
+			defaultOptions: { ...instanceOptions.defaultOptions, ...opt?.defaultOptions },
+			worldBackups: {
+				enabled: true,
+				retention: { keepLast: 5, daily: 7, weekly: 4 },
+				...instanceOptions.worldBackups,
+				...opt?.worldBackups
+			},
 		};
 
 		this.options = defaultOptions;
 		this.options.path = path.resolve(this.options.path).replace(/\\/g, '/');
+		this.requestedMemory = { ...this.options.memory };
 		
 		// Debug logging for version
 		console.log(`[Launch] Original version from options: ${opt?.version}`);
@@ -291,24 +908,27 @@ export default class Launch extends EventEmitter {
 			else this.options.mcp = path.resolve(`${this.options.path}/${this.options.mcp}`).replace(/\\/g, '/')
 		}
 
+		if (this.options.log4jConfig) {
+			this.options.log4jConfig = path.resolve(this.options.path, this.options.log4jConfig).replace(/\\/g, '/');
+		}
+
 		if (this.options.loader.type) {
 			this.options.loader.type = this.options.loader.type.toLowerCase()
 			this.options.loader.build = this.options.loader.build.toLowerCase()
 		}
 
 		if (!this.options.authenticator) {
-			const error = { error: "Authenticator not found" };
-			this.emit("error", error);
-			return error;
+			return { error: "Authenticator not found" };
 		}
 		if (this.options.downloadFileMultiple < 1) this.options.downloadFileMultiple = 1
 		if (this.options.downloadFileMultiple > 30) this.options.downloadFileMultiple = 30
 		if (typeof this.options.loader.path !== 'string') this.options.loader.path = `./loader/${this.options.loader.type}`;
-		this.start();
+		return null;
 	}
 
 
 	async start() {
+		let launched = false;
 		try {
 			this.isCancelled = false;
 			this.isLaunching = true;
@@ -321,6 +941,7 @@ export default class Launch extends EventEmitter {
 				this.isLaunching = false;
 				return;
 			}
+			this.emit('phase', 'preparing');
 			let data: any = await this.DownloadGame();
 			if (this.isCancelled) return;
 			if (data.error) {
@@ -331,6 +952,10 @@ export default class Launch extends EventEmitter {
 			let { minecraftJson, minecraftLoader, minecraftVersion, minecraftJava } = data;
 			console.log(`[Launch] DownloadGame returned version: ${minecraftVersion}`);
 			if (this.isCancelled) return;
+			const loader = this.getInstalledLoader(minecraftLoader);
+			await this.backupWorlds(minecraftVersion, loader);
+			if (this.isCancelled) return;
+			this.resolveMemory(minecraftVersion, this.options.java.path ? this.options.java.path : minecraftJava.path);
 			let minecraftArguments: any = await new argumentsMinecraft(this.options).GetArguments(minecraftJson, minecraftLoader);
 			if (this.isCancelled) return;
 			if (minecraftArguments.error) {
@@ -345,14 +970,7 @@ export default class Launch extends EventEmitter {
 				this.isLaunching = false;
 				return;
 			}
-			let Arguments: any = [
-				...minecraftArguments.jvm,
-				...minecraftArguments.classpath,
-				...loaderArguments.jvm,
-				minecraftArguments.mainClass,
-				...minecraftArguments.game,
-				...loaderArguments.game
-			];
+			let Arguments: any = this.assembleArguments(minecraftArguments, loaderArguments);
 			let java: any = this.options.java.path ? this.options.java.path : minecraftJava.path;
 			let logs = this.options.instance ? `${this.options.path}/instances/${this.options.instance}` : this.options.path;
 			if (!fs.existsSync(logs)) fs.mkdirSync(logs, { recursive: true });
@@ -360,13 +978,18 @@ export default class Launch extends EventEmitter {
 			// Use StringBuilder for efficient string building
 			const stringBuilder = this.memoryManager.getFromPool('StringBuilder', () => new StringBuilder());
 			try {
+				if (this.options.wrapper?.length) {
+					stringBuilder.append(`Launching with wrapper ${this.redactArguments(this.options.wrapper).join(' ')}\n`);
+				}
+				for (const [name, value] of Object.entries(this.options.env)) {
+					stringBuilder.append(`Launching with environment ${name}=${this.redactArguments([value])[0]}\n`);
+				}
+				if (this.options.envUnset.length > 0) {
+					stringBuilder.append(`Launching without environment ${this.options.envUnset.join(', ')}\n`);
+				}
 				stringBuilder.append('Launching with arguments ');
-				stringBuilder.append(Arguments.join(' '));
+				stringBuilder.append(this.redactArguments(Arguments).join(' '));
 				let argumentsLogs = stringBuilder.toString();
-				argumentsLogs = argumentsLogs.replaceAll(this.options.authenticator?.access_token, '????????');
-				argumentsLogs = argumentsLogs.replaceAll(this.options.authenticator?.client_token, '????????');
-				argumentsLogs = argumentsLogs.replaceAll(this.options.authenticator?.uuid, '????????');
-				argumentsLogs = argumentsLogs.replaceAll(this.options.authenticator?.xboxAccount?.xuid, '????????');
 				argumentsLogs = argumentsLogs.replaceAll(`${this.options.path}/`, '');
 				this.emit('data', argumentsLogs);
 			} finally {
@@ -374,36 +997,144 @@ export default class Launch extends EventEmitter {
 				this.memoryManager.returnToPool('StringBuilder', stringBuilder, (obj) => obj.clear());
 			}
 			if (this.isCancelled) return;
-			this.minecraftProcess = spawn(java, Arguments, { cwd: logs, detached: this.options.detached });
+			
+			this.emit('phase', 'starting');
+			
+			// Start the JVM through the wrapper command, if any
+			let command: string = java;
+			let commandArguments: string[] = Arguments;
+			if (this.options.wrapper?.length) {
+				const [wrapper, ...wrapperArguments] = this.options.wrapper;
+				command = this.resolveExecutable(wrapper);
+				if (!command) {
+					this.isLaunching = false;
+					this.emit('error', new LaunchError(`Wrapper command "${wrapper}" was not found`, 'spawn', false, ErrorCodes.WRAPPER_NOT_FOUND));
+					return;
+				}
+				commandArguments = [...wrapperArguments, java, ...Arguments];
+			}
+			this.minecraftProcess = spawn(command, commandArguments, {
+				cwd: logs,
+				detached: this.options.detached,
+				env: this.buildEnvironment()
+			});
+			
+			// A missing or non-executable command is only reported through the 'error' event
+			const spawnError = await new Promise<NodeJS.ErrnoException | null>(resolve => {
+				this.minecraftProcess.once('spawn', () => resolve(null));
+				this.minecraftProcess.once('error', resolve);
+			});
+			if (spawnError) {
+				this.isLaunching = false;
+				const notFound = !this.options.wrapper?.length && (spawnError.code === 'ENOENT' || spawnError.code === 'EACCES');
+				this.emit('error', new LaunchError(
+					notFound ? `Java executable "${java}" was not found or cannot be run` : `Failed to start the game: ${spawnError.message}`,
+					'spawn',
+					false,
+					notFound ? ErrorCodes.JAVA_NOT_FOUND : ErrorCodes.PROCESS_SPAWN_FAILED
+				));
+				return;
+			}
+			this.minecraftProcess.on('error', (err) => console.warn('[Launch] Game process error:', err));
+			
+			// Record the session so it can be found again if the launcher restarts
+			const sessions = new SessionManager(this.options.path);
+			let session: SessionRecord | null = null;
+			if (this.minecraftProcess.pid) {
+				try {
+					session = sessions.create({
+						pid: this.minecraftProcess.pid,
+						startTime: new Date().toISOString(),
+						instance: this.options.instance || null,
+						version: minecraftVersion,
+						loader,
+						executable: command,
+						gameDirectory: logs,
+						logFile: `${logs}/logs/latest.log`,
+						detached: !!this.options.detached
+					});
+				} catch (err) {
+					console.warn('[Launch] Failed to record session:', err);
+				}
+			}
 			
 			// Track process start time for crash detection
 			const processStartTime = Date.now();
 			let hasExitedNormally = false;
 			let lastOutputTime = Date.now();
+			// Keep the end of the output for the crash analyzer
+			const outputTail: string[] = [];
+			const recordOutput = (text: string) => {
+				outputTail.push(...text.split(/\r?\n/).filter(line => line.length > 0));
+				if (outputTail.length > OUTPUT_TAIL_LINES) outputTail.splice(0, outputTail.length - OUTPUT_TAIL_LINES);
+			};
+			
+			// Parse the output into structured log records, one parser per stream
+			this.logBuffer = new LogBuffer(this.options.logBufferSize);
+			const logParsers = [new GameLogParser('stdout'), new GameLogParser('stderr')];
+			for (const parser of logParsers) {
+				parser.on('record', (record: LogRecord) => {
+					this.logBuffer.push(record);
+					this.emit('log', record);
+				});
+			}
 			
 			this.minecraftProcess.stdout.on('data', (data) => {
 				lastOutputTime = Date.now();
+				recordOutput(data.toString('utf-8'));
+				logParsers[0].write(data.toString('utf-8'));
 				this.emit('data', data.toString('utf-8'));
 			});
 			
 			this.minecraftProcess.stderr.on('data', (data) => {
 				lastOutputTime = Date.now();
+				recordOutput(data.toString('utf-8'));
+				logParsers[1].write(data.toString('utf-8'));
 				this.emit('data', data.toString('utf-8'));
 			});
 			
-			this.minecraftProcess.on('close', (code, signal) => {
+			this.minecraftProcess.on('close', async (code, signal) => {
 				const runtime = Date.now() - processStartTime;
 				const timeSinceLastOutput = Date.now() - lastOutputTime;
+				for (const parser of logParsers) parser.end();
+				if (session) sessions.remove(session);
 				
 				// Determine if this was a crash
 				const isCrash = this.detectCrash(code, signal, runtime, timeSinceLastOutput, hasExitedNormally);
 				
+				// Explain the crash from the crash report, hs_err log and output
+				let crashReport: CrashReport | null = null;
+				if (isCrash) {
+					crashReport = await new CrashAnalyzer().analyze({
+						gameDirectory: logs,
+						startTime: processStartTime,
+						output: outputTail
+					}).catch((err) => {
+						console.warn('[Launch] Failed to analyze crash:', err);
+						return null;
+					});
+				}
+				
+				// Keep the session in the instance's playtime history
+				await new PlaytimeHistory(this.options.path).record(this.options.instance || null, {
+					startTime: new Date(processStartTime).toISOString(),
+					endTime: new Date().toISOString(),
+					duration: runtime,
+					account: this.options.authenticator?.name ?? null,
+					version: minecraftVersion,
+					loader,
+					exitCode: code,
+					crashed: isCrash
+				}).catch((err) => console.warn('[Launch] Failed to record playtime:', err));
+				
+				this.emit('phase', 'closed');
 				this.emit('close', {
 					message: 'Minecraft closed',
 					code: code,
 					signal: signal,
 					runtime: runtime,
 					isCrash: isCrash,
+					crashReport: crashReport,
 					timeSinceLastOutput: timeSinceLastOutput,
 					instanceId: this.options.instance
 				});
@@ -423,22 +1154,33 @@ export default class Launch extends EventEmitter {
 			const performanceMetrics = this.performanceMonitor.stopMonitoring();
 			
 			// Only emit complete after everything is done
+			launched = true;
+			this.emit('phase', 'running');
 			this.emit('complete', { 
 				message: 'Minecraft launched successfully', 
 				process: this.minecraftProcess.pid,
+				version: minecraftVersion,
+				session: session,
 				performance: performanceMetrics
 			});
 			this.isLaunching = false;
 		} catch (error) {
 			this.isLaunching = false;
 			this.emit('error', error);
+		} finally {
+			if (!launched) this.performanceMonitor.stopMonitoring();
+			if (!launched && !this.isCancelled) this.emit('phase', 'failed');
 		}
 	}
 
 	async DownloadGame() {
 		if (this.isCancelled) return;
 		console.log(`[DownloadGame] Starting with version: ${this.options.version}`);
-		let InfoVersion = await new jsonMinecraft(this.options).GetInfoVersion();
+		this.metadataCache = new MetadataCache(this.options.path, this.options.offline);
+		this.metadataCache.on('cache', (usage: CacheUsage) => {
+			this.emit('offline_cache', usage);
+		});
+		let InfoVersion = await new jsonMinecraft(this.options, this.metadataCache).GetInfoVersion();
 		if (this.isCancelled) return;
 		let loaderJson: any = null;
 		if ('error' in InfoVersion) {
@@ -446,51 +1188,65 @@ export default class Launch extends EventEmitter {
 			return InfoVersion;
 		}
 		let { json, version } = InfoVersion;
-		let libraries = new librariesMinecraft(this.options);
+		let libraries = new librariesMinecraft(this.options, this.metadataCache);
 		let bundle = new bundleMinecraft(this.options);
-		let java = new javaMinecraft(this.options);
-		java.on('progress', (progress: any, size: any, element: any) => {
+		let java = new javaMinecraft(this.options, this.metadataCache);
+		java.on('progress', (progress, size, element) => {
 			this.emit('progress', progress, size, element);
 		});
-		java.on('extract', (progress: any) => {
+		java.on('extract', (progress) => {
 			this.emit('extract', progress);
 		});
 		let gameLibraries: any = await libraries.Getlibraries(json);
 		if (this.isCancelled) return;
 		let gameAssetsOther: any = await libraries.GetAssetsOthers(this.options.url);
 		if (this.isCancelled) return;
-		let gameAssets: any = await new assetsMinecraft(this.options).getAssets(json);
+		let gameAssets: any = await new assetsMinecraft(this.options, this.metadataCache).getAssets(json);
 		if (this.isCancelled) return;
 		let gameJava: any = this.options.java.path ? { files: [] } : await java.getJavaFiles(json);
 		if (this.isCancelled) return;
 		if (gameJava.error) return gameJava;
 		let filesList: any = await bundle.checkBundle([...gameLibraries, ...gameAssetsOther, ...gameAssets, ...gameJava.files]);
 		if (this.isCancelled) return;
+		// Without network access, anything still missing on disk cannot be fetched
+		if (filesList.length > 0 && this.metadataCache.offline) {
+			return {
+				error: true,
+				code: ErrorCodes.OFFLINE_FILES_MISSING,
+				message: `Cannot launch offline: ${filesList.length} required files are missing on disk`,
+				missing: filesList.map((file: any) => file.path.replace(`${this.options.path}/`, ''))
+			};
+		}
 		// In DownloadGame method, after downloadFileMultiple completes:
 		if (filesList.length > 0) {
-			this.downloader = new Downloader();
+			this.emit('phase', 'downloading');
+			this.downloader = new Downloader({
+				bandwidthLimit: this.options.bandwidthLimit,
+				hostConcurrency: this.options.hostConcurrency,
+				store: this.options.store
+			});
 			let totsize = await bundle.getTotalSize(filesList);
 			
 			// Start download performance monitoring
 			this.performanceMonitor.startDownloadMonitoring();
 			
-			this.downloader.on("progress", (DL: any, totDL: any, element: any) => {
+			this.downloader.on("progress", (DL, totDL, element) => {
 				this.emit("progress", DL, totDL, element);
 				// Record download progress for performance monitoring
 				this.performanceMonitor.recordDownloadProgress(DL, 100); // Use a fixed interval for now
 			});
 			
-			this.downloader.on("speed", (speed: any) => {
+			this.downloader.on("speed", (speed) => {
 				this.emit("speed", speed);
 				// Record speed metrics
 				this.performanceMonitor.recordMetric('download_speed', speed);
 			});
 			
-			this.downloader.on("estimated", (time: any) => {
+			this.downloader.on("estimated", (time) => {
 				this.emit("estimated_time", time);
 			});
 			
-			this.downloader.on("error", (e: any) => {
+			this.downloader.on("error", (e) => {
 				// Emit specific error types instead of generic "error"
 				if (e instanceof DownloadError) {
 					this.emit("download_error", e);
@@ -522,17 +1278,18 @@ export default class Launch extends EventEmitter {
 			if (this.isCancelled) return;
 		}
 		if (this.options.loader.enable === true) {
-			let loaderInstall = new loaderMinecraft(this.options);
-			loaderInstall.on('extract', (extract: any) => {
+			this.emit('phase', 'installing_loader');
+			let loaderInstall = new loaderMinecraft(this.options, this.metadataCache);
+			loaderInstall.on('extract', (extract) => {
 				this.emit('extract', extract);
 			});
-			loaderInstall.on('progress', (progress: any, size: any, element: any) => {
+			loaderInstall.on('progress', (progress, size, element) => {
 				this.emit('progress', progress, size, element);
 			});
-			loaderInstall.on('check', (progress: any, size: any, element: any) => {
+			loaderInstall.on('check', (progress, size, element) => {
 				this.emit('check', progress, size, element);
 			});
-			loaderInstall.on('patch', (patch: any) => {
+			loaderInstall.on('patch', (patch) => {
 				this.emit('patch', patch);
 			});
 			let jsonLoader = await loaderInstall.GetLoader(version, this.options.java.path ? this.options.java.path : gameJava.path)
@@ -550,9 +1307,10 @@ export default class Launch extends EventEmitter {
 		else json.nativesList = true;
 		if (isold(json)) new assetsMinecraft(this.options).copyAssets(json);
 		
-		// Configure resource packs if provided
+		// Default options for a new game directory, then the resource packs to enable
+		await this.applyDefaultOptions();
 		if (this.options.resourcePacks && this.options.resourcePacks.length > 0) {
-			this.configureResourcePacks();
+			await this.configureResourcePacks(version);
 		}
 		
 		console.log(`[DownloadGame] Returning version: ${version}`);
@@ -564,6 +1322,85 @@ export default class Launch extends EventEmitter {
 		};
 	}
 
+	/**
+	 * Orders the Minecraft and loader arguments into the final JVM command line.
+	 */
+	private assembleArguments(minecraftArguments: any, loaderArguments: any): string[] {
+		return [
+			...minecraftArguments.jvm,
+			...minecraftArguments.classpath,
+			...loaderArguments.jvm,
+			minecraftArguments.mainClass,
+			...minecraftArguments.game,
+			...loaderArguments.game
+		];
+	}
+
+	/**
+	 * Turns whatever a launch step reported as an error into an `OriCoreError`.
+	 */
+	private toOriCoreError(error: LaunchErrorEvent | null): OriCoreError {
+		if (error instanceof OriCoreError) return error;
+		if (error instanceof Error) return wrapError(error, { phase: 'launch' });
+		const message = error?.message || (typeof error?.error === 'string' ? error.error : 'Launch failed');
+		return new LaunchError(message, 'launch', false, error?.code || ErrorCodes.LAUNCH_FAILED);
+	}
+
+	/**
+	 * Builds the game process's environment from the launcher's, plus `env` and minus `envUnset`.
+	 */
+	private buildEnvironment(): NodeJS.ProcessEnv {
+		const env: NodeJS.ProcessEnv = { ...process.env, ...this.options.env };
+		for (const name of this.options.envUnset) {
+			// Environment variable names are case-insensitive on Windows
+			for (const key of Object.keys(env)) {
+				if (process.platform === 'win32' ? key.toLowerCase() === name.toLowerCase() : key === name) delete env[key];
+			}
+		}
+		return env;
+	}
+
+	/**
+	 * Returns the absolute path of an executable given as a path or as a name
+	 * looked up in `PATH`, or `null` if it cannot be found.
+	 */
+	private resolveExecutable(command: string): string | null {
+		const isFile = (file: string) => {
+			try {
+				return fs.statSync(file).isFile();
+			} catch {
+				return false;
+			}
+		};
+
+		if (command.includes('/') || command.includes('\\')) {
+			const file = path.resolve(this.options.path, command);
+			return isFile(file) ? file : null;
+		}
+
+		const extensions = process.platform === 'win32'
+			? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';')]
+			: [''];
+		for (const directory of (process.env.PATH || '').split(path.delimiter)) {
+			if (!directory) continue;
+			for (const extension of extensions) {
+				const file = path.join(directory, command + extension);
+				if (isFile(file)) return file;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Replaces access tokens and account identifiers in the arguments with `????????`.
+	 */
+	private redactArguments(args: string[]): string[] {
+		const auth = this.options.authenticator;
+		const secrets = [auth?.access_token, auth?.client_token, auth?.uuid, auth?.xboxAccount?.xuid]
+			.filter((secret): secret is string => typeof secret === 'string' && secret.length > 0);
+		return args.map(arg => secrets.reduce((value, secret) => value.replaceAll(secret, '????????'), arg));
+	}
+
 	public async cancel(): Promise<void> {
 		const wasLaunching = this.isLaunching;
 		const hadProcess = !!this.minecraftProcess;
@@ -613,6 +1450,16 @@ export default class Launch extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Changes the maximum download speed of the current launch, including files already downloading.
+	 *
+	 * @param bytesPerSecond Maximum speed, or `null` for no limit
+	 */
+	public setBandwidthLimit(bytesPerSecond: number | null): void {
+		if (this.options) this.options.bandwidthLimit = bytesPerSecond ?? undefined;
+		this.downloader?.setBandwidthLimit(bytesPerSecond);
+	}
+
 	public get launching(): boolean {
 		return this.isLaunching;
 	}
@@ -621,6 +1468,40 @@ export default class Launch extends EventEmitter {
 		return this.isCancelled;
 	}
 
+	/**
+	 * Sets `options.memory` to the sizes picked by `MemorySizer` for the requested
+	 * settings and reports the decision through the `memory` event.
+	 */
+	private resolveMemory(version: string, javaPath: string): MemoryDecision {
+		const decision = this.computeMemory(version, javaPath);
+		// The requested settings are kept, so the next launch resolves 'auto' again
+		this.options.memory = { ...this.requestedMemory, min: decision.min, max: decision.max };
+		this.emit('memory', decision);
+		return decision;
+	}
+
+	/**
+	 * Picks the heap sizes for the requested settings without applying them.
+	 */
+	private computeMemory(version: string, javaPath: string): MemoryDecision {
+		return new MemorySizer().compute({
+			...this.requestedMemory,
+			version,
+			loader: this.options.loader.enable === true ? this.options.loader.type : null,
+			gameDirectory: this.getGameDirectory(),
+			javaPath
+		});
+	}
+
+	/**
+	 * Returns the structured log records of the last launched game that are still in memory.
+	 *
+	 * @param query Optional filters by level, time, message text and count
+	 */
+	public getLogs(query?: LogQuery): LogRecord[] {
+		return this.logBuffer.query(query);
+	}
+
 	public getMemoryStats(): { pools: number; totalObjects: number; heapUsed: number } {
 		return this.memoryManager.getMemoryStats();
 	}
@@ -630,61 +1511,85 @@ export default class Launch extends EventEmitter {
 	}
 
 	/**
-	 * Configures resource packs by updating the options.txt file to enable them.
-	 * This ensures that resource packs appear on the right side (enabled) in Minecraft's resource pack menu.
+	 * Installs the `resourcePacks` that are not in the game directory yet and enables
+	 * them, so they appear on the right side (enabled) of Minecraft's resource pack menu.
 	 */
-	private configureResourcePacks(): void {
-		if (!this.options.resourcePacks || this.options.resourcePacks.length === 0) {
-			return;
-		}
+	private async configureResourcePacks(version: string): Promise<void> {
+		const manager = new ResourcePackManager(this.options.path);
+		const instance = this.options.instance || null;
 
-		const optionsPath = `${this.options.path}/options.txt`;
-		let optionsContent = '';
-
-		// Read existing options.txt if it exists
-		if (fs.existsSync(optionsPath)) {
+		for (const resourcePack of this.options.resourcePacks) {
 			try {
-				optionsContent = fs.readFileSync(optionsPath, 'utf-8');
+				const installed = `${this.getGameDirectory()}/resourcepacks/${resourcePack.fileName}`;
+				let pack: ResourcePack | null;
+				if (resourcePack.filePath && fs.existsSync(resourcePack.filePath) && !fs.existsSync(installed)) {
+					pack = await manager.install(instance, resourcePack.filePath, { fileName: resourcePack.fileName, enable: true, minecraftVersion: version });
+				} else {
+					await manager.enable(instance, resourcePack.fileName, version);
+					pack = await manager.get(instance, resourcePack.fileName, version);
+				}
+				if (pack?.warning) console.warn(`[ResourcePacks] ${resourcePack.name || pack.fileName}: ${pack.warning}`);
 			} catch (error) {
-				console.warn(`[ResourcePacks] Failed to read options.txt: ${error}`);
+				console.error(`[ResourcePacks] Failed to enable ${resourcePack.fileName}: ${error}`);
 			}
 		}
+	}
 
-		// Extract existing resourcePacks setting
-		const lines = optionsContent.split('\n');
-		const resourcePackLines = lines.filter(line => line.startsWith('resourcePacks:'));
-		const existingResourcePacks = resourcePackLines.length > 0 ? resourcePackLines[0].split(':')[1] : '';
-		
-		// Parse existing resource packs (format: ["pack1.zip","pack2.zip"])
-		let existingPacks: string[] = [];
-		if (existingResourcePacks) {
-			try {
-				existingPacks = JSON.parse(existingResourcePacks);
-			} catch (error) {
-				console.warn(`[ResourcePacks] Failed to parse existing resourcePacks setting: ${error}`);
-			}
-		}
+	/**
+	 * Writes `defaultOptions` to the game directory's options.txt on its first launch,
+	 * i.e. when the game has not created an options.txt there yet.
+	 */
+	private async applyDefaultOptions(): Promise<void> {
+		const file = `${this.getGameDirectory()}/options.txt`;
+		if (fs.existsSync(file) || Object.keys(this.options.defaultOptions).length === 0) return;
 
-		// Add our enabled resource packs
-		const newResourcePacks = this.options.resourcePacks.map(rp => rp.fileName);
-		const combinedPacks = [...new Set([...existingPacks, ...newResourcePacks])]; // Remove duplicates
+		try {
+			await new OptionsFile(file).setAll(this.options.defaultOptions).save();
+		} catch (error) {
+			console.error(`[Options] Failed to write default options: ${error}`);
+		}
+	}
 
-		// Create the new resourcePacks line
-		const newResourcePackLine = `resourcePacks:${JSON.stringify(combinedPacks)}`;
+	/**
+	 * Returns the loader to record in the session and playtime history. For `'latest'`
+	 * and `'recommended'` builds, the installed profile's id (e.g. "fabric-loader-0.16.9-1.21.1")
+	 * stands for the build, so that a loader update counts as a change.
+	 */
+	private getInstalledLoader(loaderJson: any): { type: string; build: string } | null {
+		if (this.options.loader.enable !== true) return null;
+		const { type, build } = this.options.loader;
+		const floating = build === 'latest' || build === 'recommended';
+		return { type, build: floating && loaderJson?.id ? loaderJson.id : build };
+	}
 
-		// Update or add the resourcePacks line
-		let updatedLines = lines.filter(line => !line.startsWith('resourcePacks:'));
-		updatedLines.push(newResourcePackLine);
+	/**
+	 * Backs up the worlds before the first launch with another version or loader,
+	 * which can break them or make them unplayable with the previous version.
+	 * A failed backup is reported as a recoverable error and does not stop the launch.
+	 */
+	private async backupWorlds(version: string, loader: { type: string; build: string } | null): Promise<void> {
+		if (!this.options.worldBackups?.enabled) return;
+		const instance = this.options.instance || null;
 
-		// Write the updated options.txt
+		const backups = new WorldBackupManager(this.options.path);
 		try {
-			fs.writeFileSync(optionsPath, updatedLines.join('\n'));
-			console.log(`[ResourcePacks] Updated options.txt with ${combinedPacks.length} resource packs`);
-		} catch (error) {
-			console.error(`[ResourcePacks] Failed to write options.txt: ${error}`);
+			const reason = await backups.detectChange(instance, version, loader);
+			if (!reason || (await backups.getWorlds(instance)).length === 0) return;
+
+			this.emit('phase', 'backing_up');
+			backups.on('progress', (processed, total, world) => this.emit('backup_progress', processed, total, world));
+			backups.on('created', (backup) => this.emit('world_backup', backup));
+			await backups.createAll(instance, { reason, retention: this.options.worldBackups.retention });
+		} catch (error: any) {
+			console.warn(`[Launch] Failed to back up worlds: ${error.message}`);
+			this.emit('recoverable_error', error);
 		}
 	}
 
+	private getGameDirectory(): string {
+		return this.options.instance ? `${this.options.path}/instances/${this.options.instance}` : this.options.path;
+	}
+
 	/**
 	 * Detects if the game process crashed based on exit code, signal, runtime, and other factors
 	 * @param code - Exit code from the process
@@ -3,7 +3,7 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 
-import { EventEmitter } from 'events';
+import TypedEmitter from '../utils/TypedEmitter.js';
 import fs from 'fs';
 import path from 'path';
 import { loader as loaderFunction } from '../utils/Index.js';
@@ -58,12 +58,29 @@ export interface LoaderResult {
 	[key: string]: any;  // Additional fields depending on the loader
 }
 
+/**
+ * Events emitted by Loader (and forwarded by MinecraftLoader).
+ */
+export interface LoaderEvents {
+	/** Files checked so far, total files to check and what is being checked */
+	check: [checked: number, total: number, element: string];
+	/** Bytes (or files) done so far, total and what is being downloaded */
+	progress: [done: number, total: number, element: string];
+	/** Description of the file being extracted */
+	extract: [element: string];
+	/** Output of the Forge/NeoForge processors */
+	patch: [output: string];
+	/** The installed loader's version JSON */
+	json: [result: LoaderResult];
+	error: [error: LoaderResult | { error: string }];
+}
+
 /**
  * The main Loader class that orchestrates installation of different
  * Minecraft mod loaders (Forge, Fabric, LegacyFabric, Quilt, etc.).
  * It extends EventEmitter to provide "check", "progress", "extract", "patch", and "error" events.
  */
-export default class Loader extends EventEmitter {
+export default class Loader extends TypedEmitter<LoaderEvents> {
 	private readonly options: LoaderOptions;
 
 	constructor(options: LoaderOptions) {
@@ -146,7 +163,7 @@ export default class Loader extends EventEmitter {
 		forge.on('extract', (element: string) => {
 			this.emit('extract', element);
 		});
-		forge.on('patch', (patch: any) => {
+		forge.on('patch', (patch: string) => {
 			this.emit('patch', patch);
 		});
 
@@ -201,7 +218,7 @@ export default class Loader extends EventEmitter {
 		neoForge.on('extract', (element: string) => {
 			this.emit('extract', element);
 		});
-		neoForge.on('patch', (patch: any) => {
+		neoForge.on('patch', (patch: string) => {
 			this.emit('patch', patch);
 		});
 
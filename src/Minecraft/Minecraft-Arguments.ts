@@ -5,8 +5,12 @@
 
 import fs from 'fs';
 import os from 'os';
+import path from 'path';
 import semver from 'semver';
-import { getPathLibraries, isold } from '../utils/Index.js';
+import { ErrorCodes, ValidationError, evaluateRules, getFileHash, getPathLibraries, isold, resolveArguments } from '../utils/Index.js';
+import type { ArgumentEntry, Rule, RuleFeatures } from '../utils/Index.js';
+import { getJvmPreset, mergeJvmArguments, resolveJvmPreset } from './Minecraft-JvmPresets.js';
+import type { JvmPresetResolution } from './Minecraft-JvmPresets.js';
 
 /**
  * Maps the Node.js process.platform values to Mojang's library folders.
@@ -34,10 +38,23 @@ export interface LaunchOptions {
 	screen?: {
 		width?: number;
 		height?: number;
+		fullscreen?: boolean;
 	};
 	GAME_ARGS: Array<string>;  // Additional arguments passed to the game
-	JVM_ARGS: Array<string>;   // Additional arguments passed to the JVM
+	JVM_ARGS: Array<string>;   // Additional arguments passed to the JVM, merged over the preset's
+	jvmPreset?: string;        // GC/tuning flag preset (default "vanilla")
+	java?: {
+		path?: string;            // Custom Java executable, used to read its version
+		version?: string;         // Forced Java major version
+	};
 	mcp?: string;              // MCP config path (for modded usage)
+	log4jConfig?: string;      // Custom log4j configuration file (absolute path)
+	quickPlay?: {
+		singleplayer?: string;    // World folder name
+		multiplayer?: string;     // "host" or "host:port"
+		realms?: string;          // Realm ID
+		path?: string;            // Quick Play log file, relative to the game directory
+	};
 }
 
 /**
@@ -54,18 +71,34 @@ export interface VersionJSON {
 	mainClass?: string;
 	minecraftArguments?: string; // Legacy format for older MC versions
 	arguments?: {
-		game?: Array<string>;
-		jvm?: Array<string>;
+		game?: Array<ArgumentEntry>;
+		jvm?: Array<ArgumentEntry>;
 	};
 	libraries?: Array<any>;    // List of library dependencies
 	nativesList?: Array<string>;
+	javaVersion?: {
+		component: string;
+		majorVersion: number;
+	};
+	logging?: {
+		client?: {
+			argument: string;      // e.g. "-Dlog4j.configurationFile=${path}"
+			file: {
+				id: string;          // e.g. "client-1.12.xml"
+				sha1: string;
+				size: number;
+				url: string;
+			};
+			type: string;          // e.g. "log4j2-xml"
+		};
+	};
 }
 
 export interface Library {
 	name: string;
 	loader?: string;
 	natives?: Record<string, string>;
-	rules?: { os?: { name?: string } }[];
+	rules?: Rule[];
 }
 
 /**
@@ -90,6 +123,16 @@ export interface LaunchArguments {
 	jvm: Array<string>;
 	classpath: Array<string>;
 	mainClass?: string;
+	jvmPreset?: JvmPresetResolution;
+}
+
+/**
+ * Returned by GetArguments when the options cannot be used with this version.
+ */
+export interface LaunchArgumentsError {
+	error: true;
+	message: string;
+	code: string;
 }
 
 /**
@@ -99,6 +142,7 @@ export interface LaunchArguments {
 export default class MinecraftArguments {
 	private options: LaunchOptions;
 	private authenticator: any;
+	private jvmPreset: JvmPresetResolution | null = null;
 
 	constructor(options: LaunchOptions) {
 		this.options = options;
@@ -109,17 +153,27 @@ export default class MinecraftArguments {
 	 * Gathers all arguments (game, JVM, classpath) and returns them for launching.
 	 * @param versionJson The Minecraft version JSON.
 	 * @param loaderJson  An optional loader JSON (Forge, Fabric, etc.).
+	 * @param verifyFiles `false` to skip checking files that may not be downloaded yet, e.g. for a plan.
 	 */
-	public async GetArguments(versionJson: VersionJSON, loaderJson?: LoaderJSON): Promise<LaunchArguments> {
+	public async GetArguments(versionJson: VersionJSON, loaderJson?: LoaderJSON, verifyFiles: boolean = true): Promise<LaunchArguments | LaunchArgumentsError> {
+		const quickPlayError = this.ValidateQuickPlay(versionJson);
+		if (quickPlayError) {
+			return { error: true, message: quickPlayError, code: ErrorCodes.QUICK_PLAY_UNSUPPORTED };
+		}
+		if (!getJvmPreset(this.options.jvmPreset ?? 'vanilla')) {
+			return { error: true, message: `Unknown JVM preset "${this.options.jvmPreset}"`, code: ErrorCodes.INVALID_JVM_PRESET };
+		}
+
 		const gameArguments = await this.GetGameArguments(versionJson, loaderJson);
-		const jvmArguments = await this.GetJVMArguments(versionJson);
+		const jvmArguments = await this.GetJVMArguments(versionJson, verifyFiles);
 		const classpathData = await this.GetClassPath(versionJson, loaderJson);
 
 		return {
 			game: gameArguments,
 			jvm: jvmArguments,
 			classpath: classpathData.classpath,
-			mainClass: classpathData.mainClass
+			mainClass: classpathData.mainClass,
+			jvmPreset: this.jvmPreset
 		};
 	}
 
@@ -130,10 +184,17 @@ export default class MinecraftArguments {
 	 * @param loaderJson  The loader JSON (e.g., Forge) if applicable.
 	 */
 	public async GetGameArguments(versionJson: VersionJSON, loaderJson?: LoaderJSON): Promise<Array<string>> {
-		// For older MC versions, arguments may be in `minecraftArguments` instead of `arguments.game`
+		const features = this.GetRuleFeatures(versionJson);
+		const gameDirectory = this.options.instance
+			? `${this.options.path}/instances/${this.options.instance}`
+			: this.options.path;
+		const quickPlay = this.options.quickPlay;
+
+		// For older MC versions, arguments may be in `minecraftArguments` instead of `arguments.game`.
+		// Rule-gated entries (demo mode, custom resolution, quick play) are kept only if their rules allow them.
 		let gameArgs = versionJson.minecraftArguments
 			? versionJson.minecraftArguments.split(' ')
-			: versionJson.arguments?.game ?? [];
+			: resolveArguments(versionJson.arguments?.game ?? [], features);
 
 		// Merge loader's Minecraft arguments if provided
 		if (loaderJson) {
@@ -164,9 +225,7 @@ export default class MinecraftArguments {
 			'${user_type}': userType,
 			'${version_name}': loaderJson ? loaderJson.id || versionJson.id : versionJson.id,
 			'${assets_index_name}': versionJson.assetIndex.id,
-			'${game_directory}': this.options.instance
-				? `${this.options.path}/instances/${this.options.instance}`
-				: this.options.path,
+			'${game_directory}': gameDirectory,
 			'${assets_root}': isold(versionJson)
 				? `${this.options.path}/resources`
 				: `${this.options.path}/assets`,
@@ -176,28 +235,35 @@ export default class MinecraftArguments {
 			'${version_type}': versionJson.type,
 			'${clientid}': this.authenticator.clientId
 				|| this.authenticator.client_token
-				|| this.authenticator.access_token
+				|| this.authenticator.access_token,
+			'${resolution_width}': String(this.options.screen?.width),
+			'${resolution_height}': String(this.options.screen?.height),
+			'${quickPlayPath}': `${gameDirectory}/${quickPlay?.path || 'quickPlay/log.json'}`,
+			'${quickPlaySingleplayer}': quickPlay?.singleplayer,
+			'${quickPlayMultiplayer}': quickPlay?.multiplayer,
+			'${quickPlayRealms}': quickPlay?.realms
 		};
 
 		// Replace placeholders in the game arguments
 		for (let i = 0; i < gameArgs.length; i++) {
-			if (typeof gameArgs[i] === 'object') {
-				// If it's an unexpected object, remove it
-				gameArgs.splice(i, 1);
-				i--;
-				continue;
-			}
 			if (placeholderMap[gameArgs[i]]) {
 				gameArgs[i] = placeholderMap[gameArgs[i]];
 			}
 		}
 
-		// If screen options are provided, add them
-		if (this.options.screen) {
-			const { width, height } = this.options.screen;
-			if (width && height) {
-				gameArgs.push('--width', String(width), '--height', String(height));
-			}
+		// Versions without the `has_custom_resolution` rule take the screen size directly
+		if (features.has_custom_resolution && !gameArgs.includes('--width')) {
+			gameArgs.push('--width', String(this.options.screen.width), '--height', String(this.options.screen.height));
+		}
+
+		if (this.options.screen?.fullscreen && !gameArgs.includes('--fullscreen')) {
+			gameArgs.push('--fullscreen');
+		}
+
+		// Versions without Quick Play join servers through --server/--port
+		if (quickPlay?.multiplayer && !features.is_quick_play_multiplayer) {
+			const { host, port } = this.ParseServerAddress(quickPlay.multiplayer);
+			gameArgs.push('--server', host, '--port', port);
 		}
 
 		// Add any extra game arguments from user config
@@ -209,26 +275,30 @@ export default class MinecraftArguments {
 
 	/**
 	 * Builds the JVM arguments needed by Minecraft. This includes memory settings,
-	 * OS-specific options, and any additional arguments supplied by the user.
+	 * the flags of the JVM preset, OS-specific options, and any additional arguments
+	 * supplied by the user, which replace the launcher's when they set the same option.
 	 * @param versionJson The Minecraft version JSON.
+	 * @param verifyFiles `false` to skip checking the log4j configuration.
 	 */
-	public async GetJVMArguments(versionJson: VersionJSON): Promise<Array<string>> {
-		// Some OS-specific defaults
+	public async GetJVMArguments(versionJson: VersionJSON, verifyFiles: boolean = true): Promise<Array<string>> {
+		// OS-specific defaults for version JSONs without rule-gated JVM arguments
 		const osSpecificOpts: Record<string, string> = {
 			win32: '-XX:HeapDumpPath=MojangTricksIntelDriversForPerformance_javaw.exe_minecraft.exe.heapdump',
 			darwin: '-XstartOnFirstThread',
 			linux: '-Xss1M'
 		};
 
+		// GC and tuning flags supported by the Java version the game runs on
+		this.jvmPreset = resolveJvmPreset(this.options.jvmPreset ?? 'vanilla', this.GetJavaVersion(versionJson));
+		for (const warning of this.jvmPreset?.warnings ?? []) {
+			console.warn(`[MinecraftArguments] ${warning}`);
+		}
+
 		// Core JVM arguments
 		const jvmArgs: Array<string> = [
 			`-Xms${this.options.memory.min}`,
 			`-Xmx${this.options.memory.max}`,
-			'-XX:+UnlockExperimentalVMOptions',
-			'-XX:G1NewSizePercent=20',
-			'-XX:G1ReservePercent=20',
-			'-XX:MaxGCPauseMillis=50',
-			'-XX:G1HeapRegionSize=32M',
+			...(this.jvmPreset?.flags ?? []),
 			'-Dfml.ignoreInvalidMinecraftCertificates=true',
 			`-Djna.tmpdir=${this.options.path}/versions/${versionJson.id}/natives`,
 			`-Dorg.lwjgl.system.SharedLibraryExtractPath=${this.options.path}/versions/${versionJson.id}/natives`,
@@ -236,8 +306,12 @@ export default class MinecraftArguments {
 		];
 
 		// For newer MC versions that use "arguments.game" instead of "minecraftArguments",
-		// we add OS-specific arguments (e.g., Mac uses -XstartOnFirstThread).
-		if (!versionJson.minecraftArguments) {
+		// we add OS-specific arguments (e.g., Mac uses -XstartOnFirstThread). These come from the
+		// rule-gated entries of "arguments.jvm"; its plain entries are already covered above.
+		if (versionJson.arguments?.jvm) {
+			const ruleGated = versionJson.arguments.jvm.filter(entry => typeof entry !== 'string');
+			jvmArgs.push(...resolveArguments(ruleGated, this.GetRuleFeatures(versionJson)));
+		} else if (!versionJson.minecraftArguments) {
 			const opt = osSpecificOpts[process.platform];
 			if (opt) {
 				jvmArgs.push(opt);
@@ -258,8 +332,8 @@ export default class MinecraftArguments {
 		}
 
 		// Special handling for macOS (setting dock icon)
-		if (os.platform() === 'darwin') {
-			const assetsPath = `${this.options.path}/assets/indexes/${versionJson.assets}.json`;
+		const assetsPath = `${this.options.path}/assets/indexes/${versionJson.assets}.json`;
+		if (os.platform() === 'darwin' && fs.existsSync(assetsPath)) {
 			const assetsContent = fs.readFileSync(assetsPath, 'utf-8');
 			const assetsJson = JSON.parse(assetsContent);
 
@@ -271,10 +345,144 @@ export default class MinecraftArguments {
 			}
 		}
 
-		// Append any user-supplied JVM arguments
-		jvmArgs.push(...this.options.JVM_ARGS);
+		// Point log4j at the version's configuration, or the caller's replacement
+		const logArgument = await this.GetLoggingArgument(versionJson, verifyFiles);
+		if (logArgument) {
+			jvmArgs.push(logArgument);
+		}
+
+		// Merge user-supplied JVM arguments, so they override rather than conflict
+		return mergeJvmArguments(jvmArgs, this.options.JVM_ARGS);
+	}
+
+	/**
+	 * Returns the major version of the Java the game runs on: the forced `java.version`,
+	 * the `release` file of a custom Java, or the version the version JSON asks for.
+	 * @param versionJson The Minecraft version JSON.
+	 */
+	public GetJavaVersion(versionJson: VersionJSON): number {
+		const forced = parseInt(this.options.java?.version, 10);
+		if (forced) return forced;
+
+		if (this.options.java?.path) {
+			// <java home>/bin/java -> <java home>/release
+			const release = path.join(path.dirname(path.dirname(this.options.java.path)), 'release');
+			try {
+				const version = fs.readFileSync(release, 'utf-8').match(/^JAVA_VERSION="?(?:1\.)?(\d+)/m)?.[1];
+				if (version) return Number(version);
+			} catch { }
+		}
+		return versionJson.javaVersion?.majorVersion ?? 8;
+	}
+
+	/**
+	 * Returns the launcher features used to evaluate rule-gated arguments.
+	 */
+	public GetRuleFeatures(versionJson?: VersionJSON): RuleFeatures {
+		const quickPlay = this.options.quickPlay;
+		const supported = versionJson ? this.GetDeclaredFeatures(versionJson) : null;
+		const enable = (feature: string, requested: boolean) => requested && (!supported || supported.has(feature));
+
+		return {
+			is_demo_user: this.authenticator?.meta?.demo === true,
+			has_custom_resolution: !!(this.options.screen?.width && this.options.screen?.height),
+			has_quick_plays_support: enable('has_quick_plays_support', !!(quickPlay?.singleplayer || quickPlay?.multiplayer || quickPlay?.realms)),
+			is_quick_play_singleplayer: enable('is_quick_play_singleplayer', !!quickPlay?.singleplayer),
+			is_quick_play_multiplayer: enable('is_quick_play_multiplayer', !!quickPlay?.multiplayer),
+			is_quick_play_realms: enable('is_quick_play_realms', !!quickPlay?.realms)
+		};
+	}
+
+	/**
+	 * Checks that the requested Quick Play mode is something this version can do,
+	 * based on the features its rule-gated game arguments declare.
+	 * @param versionJson The Minecraft version JSON.
+	 * @returns An error message, or `null` if the options are usable.
+	 */
+	public ValidateQuickPlay(versionJson: VersionJSON): string | null {
+		const quickPlay = this.options.quickPlay;
+		if (!quickPlay) return null;
+
+		const modes = (['singleplayer', 'multiplayer', 'realms'] as const).filter(mode => quickPlay[mode]);
+		if (modes.length > 1) {
+			return `Only one Quick Play mode can be used at a time (got ${modes.join(', ')})`;
+		}
+		if (modes.length === 0) return null;
+
+		const mode = modes[0];
+		if (this.GetDeclaredFeatures(versionJson).has(`is_quick_play_${mode}`)) return null;
+
+		// Before Quick Play, servers could still be joined with --server/--port,
+		// which every version using "--name value" game arguments understands
+		const namedArguments = !!versionJson.arguments?.game || !!versionJson.minecraftArguments?.includes('--username');
+		if (mode === 'multiplayer' && namedArguments) return null;
+
+		return `Minecraft ${versionJson.id} does not support Quick Play ${mode}`;
+	}
+
+	/**
+	 * Collects every feature name used by the rules of the version's game arguments.
+	 */
+	private GetDeclaredFeatures(versionJson: VersionJSON): Set<string> {
+		const features = new Set<string>();
+		for (const entry of versionJson.arguments?.game ?? []) {
+			if (typeof entry === 'string') continue;
+			for (const rule of entry.rules ?? []) {
+				Object.keys(rule.features ?? {}).forEach(feature => features.add(feature));
+			}
+		}
+		return features;
+	}
+
+	/**
+	 * Splits "host", "host:port" or "[ipv6]:port" into host and port (default 25565).
+	 */
+	private ParseServerAddress(address: string): { host: string; port: string } {
+		const match = address.trim().match(/^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/);
+		if (!match) return { host: address.trim(), port: '25565' };
+		return { host: match[1] || match[2], port: match[3] || '25565' };
+	}
 
-		return jvmArgs;
+	/**
+	 * Builds the `-Dlog4j.configurationFile` argument from the version JSON's `logging.client` block.
+	 * The game must not start without it, since it carries the Log4Shell mitigations that
+	 * old log4j versions have no other way to get; a custom `log4jConfig` replaces it entirely.
+	 * @param versionJson The Minecraft version JSON.
+	 * @param verify      `false` to skip checking the configuration file.
+	 * @returns The JVM argument, or `null` if the version has no logging configuration.
+	 * @throws  A `ValidationError` if the configuration is missing or its SHA-1 does not match.
+	 */
+	public async GetLoggingArgument(versionJson: VersionJSON, verify: boolean = true): Promise<string | null> {
+		const logging = versionJson.logging?.client;
+		const argument = logging?.argument || '-Dlog4j.configurationFile=${path}';
+
+		if (this.options.log4jConfig) {
+			if (verify && !fs.existsSync(this.options.log4jConfig)) {
+				throw new ValidationError(
+					`Custom log4j configuration not found: ${this.options.log4jConfig}`,
+					undefined, undefined, this.options.log4jConfig, ErrorCodes.FILE_NOT_FOUND
+				);
+			}
+			return argument.replace('${path}', () => this.options.log4jConfig);
+		}
+
+		if (!logging?.file) return null;
+		const configPath = `${this.options.path}/assets/log_configs/${logging.file.id}`;
+		if (!verify) return argument.replace('${path}', () => configPath);
+		if (!fs.existsSync(configPath)) {
+			throw new ValidationError(
+				`Log configuration ${logging.file.id} is missing; launch again to download it`,
+				logging.file.sha1, undefined, configPath, ErrorCodes.FILE_NOT_FOUND
+			);
+		}
+		const sha1 = await getFileHash(configPath);
+		if (logging.file.sha1 && sha1 !== logging.file.sha1) {
+			throw new ValidationError(
+				`Log configuration ${logging.file.id} failed SHA-1 verification; launch again to download it`,
+				logging.file.sha1, sha1, configPath, ErrorCodes.FILE_CORRUPTED
+			);
+		}
+		return argument.replace('${path}', () => configPath);
 	}
 
 	/**
@@ -330,9 +538,9 @@ export default class MinecraftArguments {
 			if (lib.natives) {
 				const nativeName = lib.natives[MOJANG_LIBRARY_MAP[process.platform]] || lib.natives[process.platform];
 				if (!nativeName) continue;
-			} else if (lib.rules && lib.rules[0].os) {
+			} else if (!evaluateRules(lib.rules)) {
 				// Some libraries only apply to specific OS platforms
-				if (lib.rules[0].os.name !== MOJANG_LIBRARY_MAP[process.platform]) continue;
+				continue;
 			}
 
 			// Build the path for this library
@@ -3,6 +3,7 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 import fs from 'fs';
+import MetadataCache from '../utils/MetadataCache.js';
 
 /**
  * Represents the general structure of the options passed to MinecraftAssets.
@@ -11,6 +12,7 @@ import fs from 'fs';
 export interface MinecraftAssetsOptions {
 	path: string;        // Base path to the Minecraft data folder
 	instance?: string;   // Instance name (if using multi-instance setup)
+	offline?: boolean;   // Only use cached asset indexes
 }
 
 /**
@@ -43,9 +45,11 @@ export interface AssetItem {
 export default class MinecraftAssets {
 	private assetIndex: { id: string; url: string } | undefined;
 	private readonly options: MinecraftAssetsOptions;
+	private readonly cache: MetadataCache;
 
-	constructor(options: MinecraftAssetsOptions) {
+	constructor(options: MinecraftAssetsOptions, cache?: MetadataCache) {
 		this.options = options;
+		this.cache = cache ?? new MetadataCache(options.path, options.offline);
 	}
 
 	/**
@@ -63,11 +67,15 @@ export default class MinecraftAssets {
 			return [];
 		}
 
-		// Fetch the asset index JSON from the remote URL
+		// Fetch the asset index JSON from the remote URL (or the metadata cache)
+		const { id, url } = this.assetIndex;
 		let data;
 		try {
-			const response = await fetch(this.assetIndex.url);
-			data = await response.json();
+			data = await this.cache.resolve('assets', id, async () => {
+				const response = await fetch(url);
+				if (!response.ok) throw new Error(`Status ${response.status}`);
+				return response.json();
+			});
 		} catch (err: any) {
 			throw new Error(`Failed to fetch asset index: ${err.message}`);
 		}
@@ -6,6 +6,7 @@
 import fs from 'fs';
 import path from 'path';
 import { getFileHash } from '../utils/Index.js';
+import FileStore from '../utils/FileStore.js';
 
 /**
  * Represents a single file or object that may need to be downloaded or checked.
@@ -27,8 +28,20 @@ export interface MinecraftBundleOptions {
 	path: string;             // The main Minecraft directory or root path
 	instance?: string;        // Instance name, if working with multiple instances
 	ignored: string[];        // Files or directories to ignore when cleaning
+	store?: string | null;    // Directory of a FileStore shared with other roots
 }
 
+/**
+ * Files and directories this library writes in the game directory, which
+ * checkFiles() never removes.
+ */
+const LAUNCHER_FILES = [
+	'instance.json',          // InstanceManager settings
+	'backups',                // WorldBackupManager archives and index
+	'sessions',               // SessionManager records of running games
+	'history.json'            // PlaytimeHistory sessions and totals
+];
+
 /**
  * This class manages checking, downloading, and cleaning up Minecraft files.
  * It compares local files with a provided bundle, identifies missing or
@@ -36,19 +49,25 @@ export interface MinecraftBundleOptions {
  */
 export default class MinecraftBundle {
 	private options: MinecraftBundleOptions;
+	private store: FileStore | null;
 
 	constructor(options: MinecraftBundleOptions) {
 		this.options = options;
+		this.store = options.store ? new FileStore(options.store) : null;
 	}
 
 	/**
 	 * Checks each item in the provided bundle to see if it needs to be
 	 * downloaded or updated (e.g., if hashes don't match).
+	 * 
+	 * With a shared store, missing files it has are linked from it instead of downloaded,
+	 * and files already present are added to it.
 	 *
 	 * @param bundle Array of file items describing what needs to be on disk.
+	 * @param writeContent If `false`, nothing is written to disk (dry run): "CFILE" items and files from the store are skipped.
 	 * @returns Array of BundleItem objects that require downloading.
 	 */
-	public async checkBundle(bundle: BundleItem[]): Promise<BundleItem[]> {
+	public async checkBundle(bundle: BundleItem[], writeContent: boolean = true): Promise<BundleItem[]> {
 		const toDownload: BundleItem[] = [];
 
 		for (const file of bundle) {
@@ -60,6 +79,7 @@ export default class MinecraftBundle {
 
 			// If it's a direct content file (CFILE), we create/write the content immediately
 			if (file.type === 'CFILE') {
+				if (!writeContent) continue;
 				if (!fs.existsSync(file.folder)) {
 					fs.mkdirSync(file.folder, { recursive: true, mode: 0o777 });
 				}
@@ -85,10 +105,13 @@ export default class MinecraftBundle {
 				if (file.sha1) {
 					const localHash = await getFileHash(file.path);
 					if (localHash !== file.sha1) {
-						toDownload.push(file);
+						if (!await this.takeFromStore(file, writeContent)) toDownload.push(file);
+					} else if (this.store && writeContent) {
+						// Share it with the other roots
+						await this.store.add(file.path, file.sha1).catch((err) => console.warn(`[MinecraftBundle] ${err.message}`));
 					}
 				}
-			} else {
+			} else if (!await this.takeFromStore(file, writeContent)) {
 				// The file doesn't exist at all, mark it for download
 				toDownload.push(file);
 			}
@@ -97,6 +120,24 @@ export default class MinecraftBundle {
 		return toDownload;
 	}
 
+	/**
+	 * Puts a missing or outdated file in place from the shared store, if it has it.
+	 * In a dry run, only tells whether it could.
+	 *
+	 * @returns `false` if the file still has to be downloaded
+	 */
+	private async takeFromStore(file: BundleItem, writeContent: boolean): Promise<boolean> {
+		if (!this.store || !file.sha1 || !this.store.has(file.sha1, file.size)) return false;
+		if (!writeContent) return true;
+		try {
+			await this.store.checkout(file.sha1, file.path);
+			return true;
+		} catch (err: any) {
+			console.warn(`[MinecraftBundle] ${err.message}`);
+			return false;
+		}
+	}
+
 	/**
 	 * Calculates the total download size of all files in the bundle.
 	 *
@@ -135,14 +176,16 @@ export default class MinecraftBundle {
 			? this.getFiles(`${this.options.path}${instancePath}`)
 			: this.getFiles(this.options.path);
 
-		// Also gather files from "loader" and "runtime" directories to ignore
+		// Also gather files from "loader", "runtime" and "cache" directories to ignore
 		const ignoredFiles = [
 			...this.getFiles(`${this.options.path}/loader`),
-			...this.getFiles(`${this.options.path}/runtime`)
+			...this.getFiles(`${this.options.path}/runtime`),
+			...this.getFiles(`${this.options.path}/cache`)
 		];
 
-		// Convert custom ignored paths to actual file paths
-		for (let ignoredPath of this.options.ignored) {
+		// Convert custom ignored paths, and the files this library keeps in the
+		// game directory, to actual file paths
+		for (let ignoredPath of [...LAUNCHER_FILES, ...this.options.ignored]) {
 			ignoredPath = `${this.options.path}${instancePath}/${ignoredPath}`;
 			if (fs.existsSync(ignoredPath)) {
 				if (fs.statSync(ignoredPath).isDirectory()) {
@@ -0,0 +1,269 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ErrorCodes } from '../utils/Errors.js';
+
+/**
+ * Broad category of what made the game crash.
+ */
+export type CrashCause =
+	| 'out_of_memory'
+	| 'java_version_mismatch'
+	| 'invalid_jvm_arguments'
+	| 'missing_natives'
+	| 'graphics_driver'
+	| 'missing_dependency'
+	| 'mixin_failure'
+	| 'mod_error'
+	| 'jvm_crash'
+	| 'unknown';
+
+/**
+ * Structured summary of a crash, built from the crash report, the JVM fatal
+ * error log (`hs_err_pid*.log`) and the end of the game output.
+ */
+export interface CrashReport {
+	code: string;                  // One of `ErrorCodes`
+	cause: CrashCause;
+	summary: string;               // Human-readable explanation
+	description?: string;          // "Description:" line of the crash report
+	exception?: {
+		type: string;               // e.g. "java.lang.NullPointerException"
+		message: string;
+		stack: string[];            // First frames of the stack trace
+	};
+	suspectedMods: string[];
+	javaVersion?: {
+		required?: number;          // Java version the game or a mod was compiled for
+		actual?: number;            // Java version that ran the game
+	};
+	problematicFrame?: string;     // Native frame from hs_err_pid*.log
+	files: {
+		crashReport?: string;       // Absolute path to the crash report used
+		jvmErrorLog?: string;       // Absolute path to the hs_err_pid*.log used
+	};
+	logTail: string[];             // Last lines of the game output
+}
+
+/**
+ * Input for CrashAnalyzer.analyze().
+ */
+export interface CrashAnalyzerInput {
+	gameDirectory: string;         // Directory the game ran in (instance or root path)
+	startTime: number;             // Process start (ms); older files are ignored
+	output: string[];              // Last lines of stdout/stderr
+}
+
+/**
+ * Known crash signatures, checked in order. The first match decides the cause.
+ */
+const SIGNATURES: Array<{ cause: CrashCause; code: string; pattern: RegExp; summary: string }> = [
+	{
+		cause: 'out_of_memory',
+		code: ErrorCodes.OUT_OF_MEMORY,
+		pattern: /java\.lang\.OutOfMemoryError|There is insufficient memory for the Java Runtime Environment|Native memory allocation \(\w+\) failed/,
+		summary: 'The game ran out of memory. Increase the maximum memory or remove some mods.'
+	},
+	{
+		cause: 'java_version_mismatch',
+		code: ErrorCodes.JAVA_VERSION_INCOMPATIBLE,
+		pattern: /UnsupportedClassVersionError|has been compiled by a more recent version of the Java Runtime|requires Java \d+ or (?:newer|above|later)|Unsupported Java version|Java \d+ or (?:newer|above) is required|requires (?:version )?[\d.]+ or later of [^,\n]*\bjava\b[^,\n]*, which is missing/i,
+		summary: 'The game or a mod requires a different Java version than the one used to launch it.'
+	},
+	{
+		cause: 'invalid_jvm_arguments',
+		code: ErrorCodes.LAUNCH_FAILED,
+		pattern: /Could not create the Java Virtual Machine|Unrecognized VM option|Unrecognized option:|Invalid maximum heap size|Invalid initial heap size/,
+		summary: 'Java refused the launch arguments. Check the custom JVM arguments and memory settings.'
+	},
+	{
+		cause: 'missing_natives',
+		code: ErrorCodes.NATIVES_MISSING,
+		pattern: /UnsatisfiedLinkError|no lwjgl\w* in java\.library\.path|Failed to locate library: \S+|Can't load library|Could not find the native library/,
+		summary: 'Native libraries (LWJGL) could not be loaded. Try verifying the game files.'
+	},
+	{
+		cause: 'graphics_driver',
+		code: ErrorCodes.GRAPHICS_DRIVER_ERROR,
+		pattern: /Pixel format not accelerated|GLFW error 65542|GLFW error 65543|The driver does not appear to support OpenGL|Couldn't set pixel format|No OpenGL context found|OpenGL \d(?:\.\d)? (?:is )?(?:not supported|required)|\[(?:atio6axx|atig6pxx|ig\d+icd\d+|nvoglv\d+|libnvidia-glcore|amdxc64)[\w.]*\+/i,
+		summary: 'The graphics driver failed to create an OpenGL context. Update the graphics driver.'
+	},
+	{
+		cause: 'missing_dependency',
+		code: ErrorCodes.LOADER_INCOMPATIBLE,
+		pattern: /Incompatible mods? (?:set|found)|Missing or unsupported mandatory dependencies|ModResolutionException|requires (?:any version of|version [^ ]+ (?:or later )?of) \S+, which is missing|MissingModsException|Mod \S+ \([^)\n]*\) requires \[/,
+		summary: 'A mod is missing one of its dependencies or is incompatible with another mod.'
+	},
+	{
+		cause: 'mixin_failure',
+		code: ErrorCodes.MOD_CRASHED,
+		pattern: /MixinApplyError|Mixin apply(?: for mod \S+)? failed|InvalidInjectionException|MixinTransformerError/,
+		summary: 'A mod failed to apply its changes to the game (Mixin error).'
+	},
+	{
+		cause: 'jvm_crash',
+		code: ErrorCodes.JVM_CRASHED,
+		pattern: /A fatal error has been detected by the Java Runtime Environment/,
+		summary: 'The Java virtual machine crashed in native code.'
+	}
+];
+
+/**
+ * Frames belonging to the game, the loaders or the JDK, which are never reported as suspects.
+ */
+const NOT_A_MOD = /^(?:minecraft|client|forge|fmlcore|fmlloader|javafmllanguage|neoforge|fabric-loader|quilt-loader|mixin|sponge-mixin|lwjgl\S*|java\.base|modlauncher|securejarhandler|bootstraplauncher|eventbus|guava|netty\S*|\d[\w.-]*)$/i;
+
+/**
+ * Finds and parses the files a crashed game leaves behind, and turns
+ * them into a CrashReport launchers can show to users.
+ */
+export default class CrashAnalyzer {
+	/**
+	 * Builds a crash report for a game process that exited abnormally.
+	 *
+	 * @param input Game directory, process start time and the tail of the game output.
+	 */
+	public async analyze(input: CrashAnalyzerInput): Promise<CrashReport> {
+		const crashReportFile = this.findNewest(`${input.gameDirectory}/crash-reports`, /^crash-.*\.txt$/, input.startTime);
+		const jvmErrorLog = this.findNewest(input.gameDirectory, /^hs_err_pid\d+\.log$/, input.startTime);
+
+		const crashText = crashReportFile ? this.readText(crashReportFile) : '';
+		const jvmText = jvmErrorLog ? this.readText(jvmErrorLog) : '';
+		const outputText = input.output.join('\n');
+		const allText = [crashText, jvmText, outputText].join('\n');
+
+		const signature = SIGNATURES.find(sig => sig.pattern.test(allText));
+		const exception = this.parseException(crashText) || this.parseException(outputText);
+		const suspectedMods = this.parseSuspectedMods(crashText || outputText);
+
+		let cause: CrashCause = signature?.cause || 'unknown';
+		let code: string = signature?.code || ErrorCodes.PROCESS_CRASHED;
+		let summary = signature?.summary || 'The game crashed.';
+		if (!signature && suspectedMods.length > 0) {
+			cause = 'mod_error';
+			code = ErrorCodes.MOD_CRASHED;
+			summary = `The game crashed, most likely because of ${suspectedMods.join(', ')}.`;
+		}
+
+		return {
+			code,
+			cause,
+			summary,
+			description: crashText.match(/^Description: (.+)$/m)?.[1]?.trim(),
+			exception,
+			suspectedMods,
+			javaVersion: this.parseJavaVersion(allText),
+			problematicFrame: jvmText.match(/^# Problematic frame:\r?\n# (.+)$/m)?.[1]?.trim(),
+			files: {
+				crashReport: crashReportFile,
+				jvmErrorLog
+			},
+			logTail: input.output.slice(-50)
+		};
+	}
+
+	/**
+	 * Returns the most recently modified file in `directory` matching `pattern`
+	 * and written after `since`, if any.
+	 */
+	private findNewest(directory: string, pattern: RegExp, since: number): string | undefined {
+		if (!fs.existsSync(directory)) return undefined;
+
+		let newest: { file: string; mtime: number } | undefined;
+		for (const name of fs.readdirSync(directory)) {
+			if (!pattern.test(name)) continue;
+			const file = path.join(directory, name).replace(/\\/g, '/');
+			const mtime = fs.statSync(file).mtimeMs;
+			// Allow a little clock skew between the process start and the file system
+			if (mtime < since - 2000) continue;
+			if (!newest || mtime > newest.mtime) newest = { file, mtime };
+		}
+		return newest?.file;
+	}
+
+	private readText(file: string): string {
+		try {
+			return fs.readFileSync(file, 'utf-8');
+		} catch {
+			return '';
+		}
+	}
+
+	/**
+	 * Extracts the first Java exception and its stack frames from a block of text.
+	 */
+	private parseException(text: string): CrashReport['exception'] | undefined {
+		const lines = text.split(/\r?\n/);
+		const exceptionLine = /^(?:Exception in thread "[^"]*" )?((?:[a-zA-Z_$][\w$]*\.)+[\w$]*(?:Exception|Error|Throwable))(?::\s*(.*))?$/;
+
+		for (let i = 0; i < lines.length; i++) {
+			const match = lines[i].trim().match(exceptionLine);
+			if (!match) continue;
+
+			const stack: string[] = [];
+			for (let j = i + 1; j < lines.length && stack.length < 20; j++) {
+				const frame = lines[j].trim();
+				if (!frame.startsWith('at ')) break;
+				stack.push(frame.slice(3));
+			}
+			return { type: match[1], message: match[2] || '', stack };
+		}
+		return undefined;
+	}
+
+	/**
+	 * Collects mods named by Forge's "Suspected Mods" section or by jar names in stack frames.
+	 */
+	private parseSuspectedMods(text: string): string[] {
+		const mods = new Set<string>();
+
+		const section = text.match(/Suspected Mods?:\s*\r?\n((?:[ \t]+.+\r?\n?)+)/);
+		if (section) {
+			for (const line of section[1].split(/\r?\n/)) {
+				// Deeper indentation holds details such as the issue tracker URL
+				if (/^(?:\t\t|\s{4,})/.test(line)) continue;
+				const name = line.trim().match(/^([^,(]+?)(?:\s*\(([\w.-]+)\))?(?:,|$)/);
+				if (name && !/^NONE$/i.test(name[1])) mods.add(name[2] || name[1].trim());
+			}
+		}
+
+		// Stack frames look like "at a.b.C.method(C.java:12) ~[examplemod-1.2.3.jar%23100!/:?]"
+		for (const match of text.matchAll(/~?\[([\w.+-]+?)-v?\d[\w.+-]*\.jar/g)) {
+			if (!NOT_A_MOD.test(match[1])) mods.add(match[1]);
+		}
+		for (const match of text.matchAll(/Mixin apply for mod (\S+) failed|from mod \[?([\w.-]+)/g)) {
+			mods.add(match[1] || match[2]);
+		}
+
+		return [...mods].slice(0, 10);
+	}
+
+	/**
+	 * Reads the required and actual Java versions from class version errors and
+	 * from the "Java Version" line of the crash report.
+	 */
+	private parseJavaVersion(text: string): CrashReport['javaVersion'] | undefined {
+		// "class file version 65.0), this version of the Java Runtime only recognizes class file versions up to 61.0"
+		const classVersion = text.match(/class file version (\d+)\.\d+\), this version of the Java Runtime only recognizes class file versions up to (\d+)/);
+		if (classVersion) {
+			return {
+				required: Number(classVersion[1]) - 44,
+				actual: Number(classVersion[2]) - 44
+			};
+		}
+
+		const actual = text.match(/^\s*Java Version: (?:1\.)?(\d+)/m) || text.match(/^# JRE version: .*\((?:1\.)?(\d+)/m);
+		const required = text.match(/requires Java (\d+) or (?:newer|above|later)/i)
+			|| text.match(/Java (\d+) or (?:newer|above) is required/i)
+			|| text.match(/requires (?:version )?(\d+)[\d.]* or later of [^,\n]*\bjava\b/i);
+		if (!actual && !required) return undefined;
+		return {
+			required: required ? Number(required[1]) : undefined,
+			actual: actual ? Number(actual[1]) : undefined
+		};
+	}
+}
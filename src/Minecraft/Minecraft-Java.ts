@@ -6,10 +6,11 @@
 import os from 'os';
 import path from 'path';
 import fs from 'fs';
-import EventEmitter from 'events';
+import TypedEmitter from '../utils/TypedEmitter.js';
 
 import { getFileFromArchive } from '../utils/Index.js';
 import Downloader from '../utils/Downloader.js';
+import MetadataCache from '../utils/MetadataCache.js';
 
 /**
  * Represents the Java-specific options a user might pass to the downloader.
@@ -21,6 +22,7 @@ export interface JavaDownloaderOptions {
 		type: string;               // Image type for Adoptium (e.g., "jdk" or "jre")
 	};
 	intelEnabledMac?: boolean;    // If `true`, allows using Intel-based Java on Apple Silicon
+	offline?: boolean;            // Only use cached runtime manifests and installed runtimes
 }
 
 /**
@@ -56,16 +58,28 @@ export interface JavaFileItem {
 	type?: string;       // "Java" or other type
 }
 
+/**
+ * Events emitted by JavaDownloader.
+ */
+export interface JavaDownloaderEvents {
+	/** Bytes downloaded so far, total bytes and the archive's file name */
+	progress: [downloaded: number, total: number, fileName: string];
+	/** Name of the archive entry being extracted */
+	extract: [entry: string];
+}
+
 /**
  * Manages the download and extraction of the correct Java runtime for Minecraft.
  * It supports both Mojang's curated list of Java runtimes and the Adoptium fallback.
  */
-export default class JavaDownloader extends EventEmitter {
+export default class JavaDownloader extends TypedEmitter<JavaDownloaderEvents> {
 	private options: JavaDownloaderOptions;
+	private cache: MetadataCache;
 
-	constructor(options: JavaDownloaderOptions) {
+	constructor(options: JavaDownloaderOptions, cache?: MetadataCache) {
 		super();
 		this.options = options;
+		this.cache = cache ?? new MetadataCache(options.path, options.offline);
 	}
 
 	/**
@@ -73,12 +87,13 @@ export default class JavaDownloader extends EventEmitter {
 	 * otherwise falls back to getJavaOther().
 	 *
 	 * @param jsonversion A JSON object describing the Minecraft version (with optional javaVersion).
+	 * @param dryRun      If `true`, nothing is downloaded or extracted (see getJavaOther()).
 	 * @returns An object containing a list of JavaFileItems and the final path to "java".
 	 */
-	public async getJavaFiles(jsonversion: MinecraftVersionJSON): Promise<JavaDownloadResult> {
+	public async getJavaFiles(jsonversion: MinecraftVersionJSON, dryRun: boolean = false): Promise<JavaDownloadResult> {
 		// If a specific version is forced, delegate to getJavaOther() immediately
 		if (this.options.java.version) {
-			return this.getJavaOther(jsonversion, this.options.java.version);
+			return this.getJavaOther(jsonversion, this.options.java.version, dryRun);
 		}
 
 		// OS-to-architecture mapping for Mojang's curated Java.
@@ -97,28 +112,28 @@ export default class JavaDownloader extends EventEmitter {
 
 		// If we don't have a valid mapping for the current OS, fallback to Adoptium
 		if (!osArchMapping) {
-			return this.getJavaOther(jsonversion);
+			return this.getJavaOther(jsonversion, undefined, dryRun);
 		}
 
 		// Determine the OS-specific identifier
 		const archOs = osArchMapping[arch];
 		if (!archOs) {
 			// If we can't match the arch in the sub-object, fallback
-			return this.getJavaOther(jsonversion);
+			return this.getJavaOther(jsonversion, undefined, dryRun);
 		}
 
 		// Fetch Mojang's Java runtime metadata
 		const url = 'https://launchermeta.mojang.com/v1/products/java-runtime/2ec0cc96c44e5a76b9c8b7c39df7210883d12871/all.json';
-		const javaVersionsJson = await fetch(url).then(res => res.json());
+		const javaVersionsJson = await this.cache.resolve('java', 'all', () => fetch(url).then(res => res.json()));
 
 		const versionName = javaVersionsJson[archOs]?.[javaVersionName]?.[0]?.version?.name;
 		if (!versionName) {
-			return this.getJavaOther(jsonversion);
+			return this.getJavaOther(jsonversion, undefined, dryRun);
 		}
 
 		// Fetch the runtime manifest which lists individual files
 		const manifestUrl = javaVersionsJson[archOs][javaVersionName][0]?.manifest?.url;
-		const manifest = await fetch(manifestUrl).then(res => res.json());
+		const manifest = await this.cache.resolve('java', `${archOs}-${javaVersionName}`, () => fetch(manifestUrl).then(res => res.json()));
 		const manifestEntries: Array<[string, any]> = Object.entries(manifest.files);
 
 		// Identify the Java executable in the manifest
@@ -126,7 +141,7 @@ export default class JavaDownloader extends EventEmitter {
 		const javaEntry = manifestEntries.find(([relPath]) => relPath.endsWith(javaExeKey));
 		if (!javaEntry) {
 			// If we can't find the executable, fallback
-			return this.getJavaOther(jsonversion);
+			return this.getJavaOther(jsonversion, undefined, dryRun);
 		}
 
 		const toDelete = javaEntry[0].replace(javaExeKey, '');
@@ -161,8 +176,10 @@ export default class JavaDownloader extends EventEmitter {
 	 *
 	 * @param jsonversion A Minecraft version JSON (with optional javaVersion).
 	 * @param versionDownload A forced Java version (string) if provided by the user.
+	 * @param dryRun If `true` and the runtime is missing, the archive is returned as a
+	 *               file to download instead of being downloaded and extracted.
 	 */
-	public async getJavaOther(jsonversion: MinecraftVersionJSON, versionDownload?: string): Promise<JavaDownloadResult> {
+	public async getJavaOther(jsonversion: MinecraftVersionJSON, versionDownload?: string, dryRun: boolean = false): Promise<JavaDownloadResult> {
 		const { platform, arch } = this.getPlatformArch();
 		const majorVersion = versionDownload || jsonversion.javaVersion?.majorVersion || 8;
 		const pathFolder = path.resolve(this.options.path, `runtime/jre-${majorVersion}`);
@@ -176,7 +193,11 @@ export default class JavaDownloader extends EventEmitter {
 			java_package_type: this.options.java.type
 		});
 		const javaVersionURL = `https://api.azul.com/metadata/v1/zulu/packages/?${queryParams.toString()}`;
-		let javaVersions = await fetch(javaVersionURL).then(res => res.json());
+		let javaVersions = await this.cache.resolve(
+			'java',
+			`zulu-${majorVersion}-${platform}-${arch}-${this.options.java.type}`,
+			() => fetch(javaVersionURL).then(res => res.json())
+		);
 		if (!Array.isArray(javaVersions) || javaVersions.length === 0) {
 			return { files: [], path: '', error: true, message: 'No Java versions found for the specified parameters.' };
 		}
@@ -192,6 +213,15 @@ export default class JavaDownloader extends EventEmitter {
 		}
 
 		if (!fs.existsSync(javaExePath)) {
+			if (this.cache.offline) {
+				return { files: [], path: '', error: true, message: `Java ${majorVersion} is not installed and cannot be downloaded while offline.` };
+			}
+			if (dryRun) {
+				return {
+					files: [{ path: path.join(pathFolder, javaVersions.name), url: javaVersions.download_url, type: 'Java' }],
+					path: javaExePath
+				};
+			}
 			await this.verifyAndDownloadFile({
 				filePath: path.join(pathFolder, javaVersions.name),
 				pathFolder: pathFolder,
@@ -5,6 +5,7 @@
 
 import os from 'os';
 import MinecraftNativeLinuxARM from './Minecraft-Lwjgl-Native.js';
+import MetadataCache from '../utils/MetadataCache.js';
 
 /**
  * Helper function to perform fetch with retries
@@ -37,6 +38,8 @@ async function fetchWithRetry(url: string, retries = 3, delay = 1000): Promise<R
  */
 export interface JsonOptions {
 	version: string;     // The targeted Minecraft version (e.g. "1.19", "latest_release", etc.)
+	path?: string;       // Root path, used for the metadata cache
+	offline?: boolean;   // Only use cached metadata
 	[key: string]: any;  // Include any additional fields needed by your code
 }
 
@@ -85,14 +88,17 @@ export interface GetInfoVersionError {
  */
 export default class Json {
 	private readonly options: JsonOptions;
+	private readonly cache: MetadataCache;
 
-	constructor(options: JsonOptions) {
+	constructor(options: JsonOptions, cache?: MetadataCache) {
 		this.options = options;
+		this.cache = cache ?? new MetadataCache(options.path ?? '.', options.offline);
 	}
 
 	/**
 	 * Fetches the Mojang version manifest, resolves the intended version (release, snapshot, etc.),
 	 * and returns the associated JSON object for that version.
+	 * Both are served from the metadata cache when the network is unavailable.
 	 * If the system is Linux ARM, it will run additional processing on the JSON.
 	 *
 	 * @returns An object containing { InfoVersion, json, version }, or an error object.
@@ -103,12 +109,16 @@ export default class Json {
 		// Debug logging
 		console.log(`[Minecraft-Json] GetInfoVersion called with version: ${version}`);
 
-		// Fetch the version manifest
-		let response;
+		// Fetch the version manifest (or its cached copy when offline)
+		let manifest: MojangVersionManifest;
 		try {
-			response = await fetchWithRetry(
-				`https://launchermeta.mojang.com/mc/game/version_manifest_v2.json?_t=${new Date().toISOString()}`
-			);
+			manifest = await this.cache.resolve('manifest', 'version_manifest_v2', async () => {
+				const response = await fetchWithRetry(
+					`https://launchermeta.mojang.com/mc/game/version_manifest_v2.json?_t=${new Date().toISOString()}`
+				);
+				if (!response.ok) throw new Error(`Status ${response.status}`);
+				return response.json();
+			});
 		} catch (error: any) {
 			console.error('[Minecraft-Json] Failed to fetch version manifest:', error);
 			return {
@@ -117,15 +127,6 @@ export default class Json {
 			};
 		}
 
-		if (!response.ok) {
-			return {
-				error: true,
-				message: `Failed to fetch version manifest: Status ${response.status}`
-			};
-		}
-
-		const manifest: MojangVersionManifest = await response.json();
-
 		// Resolve "latest_release"/"latest_snapshot" shorthands
 		console.log(`[Minecraft-Json] Resolving version shorthand: ${version}`);
 		if (version === 'latest_release' || version === 'r' || version === 'lr') {
@@ -151,9 +152,13 @@ export default class Json {
 		}
 
 		// Fetch the detailed version JSON from Mojang
-		let jsonResponse;
+		let versionJson: any;
 		try {
-			jsonResponse = await fetchWithRetry(matchedVersion.url);
+			versionJson = await this.cache.resolve('versions', version, async () => {
+				const jsonResponse = await fetchWithRetry(matchedVersion.url);
+				if (!jsonResponse.ok) throw new Error(`Status ${jsonResponse.status}`);
+				return jsonResponse.json();
+			});
 		} catch (error: any) {
 			console.error(`[Minecraft-Json] Failed to fetch version JSON for ${version}:`, error);
 			return {
@@ -162,15 +167,6 @@ export default class Json {
 			};
 		}
 
-		if (!jsonResponse.ok) {
-			return {
-				error: true,
-				message: `Failed to fetch version JSON for ${version}: Status ${jsonResponse.status}`
-			};
-		}
-
-		let versionJson = await jsonResponse.json();
-
 		// If on Linux ARM, run additional processing
 		if (os.platform() === 'linux' && os.arch().startsWith('arm')) {
 			versionJson = await new MinecraftNativeLinuxARM(this.options).ProcessJson(versionJson);
@@ -0,0 +1,211 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+/**
+ * Names of the built-in JVM flag presets.
+ */
+export type JvmPresetName = 'vanilla' | 'aikar' | 'zgc-generational' | 'shenandoah' | 'minimal';
+
+/**
+ * A JVM flag that only applies to some Java versions.
+ */
+interface JvmFlag {
+	value: string;
+	minJava?: number;              // First Java major version accepting the flag
+	maxJava?: number;              // Last Java major version accepting the flag
+}
+
+/**
+ * A named set of GC and tuning flags.
+ */
+export interface JvmPreset {
+	name: JvmPresetName;
+	description: string;
+	minJava: number;               // Oldest Java major version the preset works on
+	fallback?: JvmPresetName;      // Preset used instead on older Java versions
+	flags: JvmFlag[];
+}
+
+/**
+ * The flags a preset resolved to for one Java version.
+ */
+export interface JvmPresetResolution {
+	requested: JvmPresetName;
+	name: JvmPresetName;           // Differs from `requested` when the preset was replaced by its fallback
+	javaVersion: number;
+	flags: string[];
+	dropped: string[];             // Flags left out because this Java version does not accept them
+	warnings: string[];
+}
+
+const JVM_PRESETS: Record<JvmPresetName, JvmPreset> = {
+	vanilla: {
+		name: 'vanilla',
+		description: 'The G1 settings used by the official launcher',
+		minJava: 8,
+		flags: [
+			{ value: '-XX:+UnlockExperimentalVMOptions' },
+			{ value: '-XX:+UseG1GC' },
+			{ value: '-XX:G1NewSizePercent=20' },
+			{ value: '-XX:G1ReservePercent=20' },
+			{ value: '-XX:MaxGCPauseMillis=50' },
+			{ value: '-XX:G1HeapRegionSize=32M' }
+		]
+	},
+	aikar: {
+		name: 'aikar',
+		description: "Aikar's G1 tuning, with fewer and shorter pauses for large heaps",
+		minJava: 8,
+		flags: [
+			{ value: '-XX:+UseG1GC' },
+			{ value: '-XX:+ParallelRefProcEnabled' },
+			{ value: '-XX:MaxGCPauseMillis=200' },
+			{ value: '-XX:+UnlockExperimentalVMOptions' },
+			{ value: '-XX:+DisableExplicitGC' },
+			{ value: '-XX:+AlwaysPreTouch' },
+			{ value: '-XX:G1NewSizePercent=30' },
+			{ value: '-XX:G1MaxNewSizePercent=40' },
+			{ value: '-XX:G1HeapRegionSize=8M' },
+			{ value: '-XX:G1ReservePercent=20' },
+			{ value: '-XX:G1HeapWastePercent=5' },
+			{ value: '-XX:G1MixedGCCountTarget=4' },
+			{ value: '-XX:InitiatingHeapOccupancyPercent=15' },
+			{ value: '-XX:G1MixedGCLiveThresholdPercent=90' },
+			// Removed with the remembered set rework of Java 20
+			{ value: '-XX:G1RSetUpdatingPauseTimePercent=5', maxJava: 19 },
+			{ value: '-XX:SurvivorRatio=32' },
+			{ value: '-XX:+PerfDisableSharedMem' },
+			{ value: '-XX:MaxTenuringThreshold=1' }
+		]
+	},
+	'zgc-generational': {
+		name: 'zgc-generational',
+		description: 'Generational ZGC, with sub-millisecond pauses',
+		minJava: 21,
+		fallback: 'aikar',
+		flags: [
+			{ value: '-XX:+UseZGC' },
+			// Generational mode is the default from Java 23 and the only mode from Java 24
+			{ value: '-XX:+ZGenerational', maxJava: 22 },
+			{ value: '-XX:+AlwaysPreTouch' },
+			{ value: '-XX:+DisableExplicitGC' }
+		]
+	},
+	shenandoah: {
+		name: 'shenandoah',
+		description: 'Shenandoah, a concurrent collector with short pauses on any heap size',
+		// Backported to Java 11 by most OpenJDK distributions, but not by Oracle
+		minJava: 11,
+		fallback: 'aikar',
+		flags: [
+			{ value: '-XX:+UseShenandoahGC' },
+			{ value: '-XX:+AlwaysPreTouch' },
+			{ value: '-XX:+DisableExplicitGC' }
+		]
+	},
+	minimal: {
+		name: 'minimal',
+		description: "No tuning flags; the JVM's own defaults",
+		minJava: 8,
+		flags: []
+	}
+};
+
+/**
+ * Flag-name prefixes that only mean something to one garbage collector.
+ */
+const COLLECTOR_FLAG_PREFIXES: Record<string, RegExp> = {
+	G1GC: /^G1/,
+	ZGC: /^Z[A-Z]/,
+	ShenandoahGC: /^Shenandoah/,
+	ParallelGC: /^Parallel(?!RefProc)/
+};
+
+/**
+ * Returns the built-in presets.
+ */
+export function getJvmPresets(): JvmPreset[] {
+	return Object.values(JVM_PRESETS);
+}
+
+/**
+ * Returns a built-in preset by name, or `null` if there is none.
+ */
+export function getJvmPreset(name: string): JvmPreset | null {
+	return JVM_PRESETS[name as JvmPresetName] ?? null;
+}
+
+/**
+ * Resolves a preset's flags for a Java version. A preset that needs a newer
+ * Java is replaced by its fallback, and flags the runtime does not accept are dropped.
+ *
+ * @param name        Preset name
+ * @param javaVersion Java major version (e.g. 8, 17, 21)
+ * @returns The resolution, or `null` if the preset does not exist
+ */
+export function resolveJvmPreset(name: string, javaVersion: number): JvmPresetResolution | null {
+	let preset = getJvmPreset(name);
+	if (!preset) return null;
+	const warnings: string[] = [];
+
+	while (javaVersion < preset.minJava) {
+		const fallback = JVM_PRESETS[preset.fallback ?? 'minimal'];
+		warnings.push(`JVM preset "${preset.name}" needs Java ${preset.minJava} or newer (found Java ${javaVersion}); using "${fallback.name}" instead`);
+		preset = fallback;
+	}
+
+	const flags: string[] = [];
+	const dropped: string[] = [];
+	for (const flag of preset.flags) {
+		const supported = javaVersion >= (flag.minJava ?? 0) && javaVersion <= (flag.maxJava ?? Infinity);
+		(supported ? flags : dropped).push(flag.value);
+	}
+
+	return { requested: name as JvmPresetName, name: preset.name, javaVersion, flags, dropped, warnings };
+}
+
+/**
+ * Returns the key two JVM arguments share when they set the same thing:
+ * `-Xmx4G` and `-Xmx2G` both give `-Xmx`, `-XX:+UseG1GC` and `-XX:+UseZGC`
+ * both give `gc`. Arguments that can appear several times give `null`.
+ */
+function getFlagKey(argument: string): string | null {
+	let match = argument.match(/^-X(ms|mx|ss|mn)/);
+	if (match) return `-X${match[1]}`;
+	if (/^-XX:[+-]Use\w+GC$/.test(argument)) return 'gc';
+	match = argument.match(/^-XX:[+-]?(\w+)/);
+	if (match) return `-XX:${match[1]}`;
+	match = argument.match(/^-D([^=]+)/);
+	if (match) return `-D${match[1]}`;
+	return null;
+}
+
+/**
+ * Merges user JVM arguments into the launcher's. A user argument replaces every earlier argument
+ * setting the same thing, and choosing another garbage collector also removes the previous
+ * collector's tuning flags. Exact duplicates are dropped.
+ */
+export function mergeJvmArguments(base: string[], extra: string[]): string[] {
+	const merged = [...base];
+	for (const argument of extra) {
+		const key = getFlagKey(argument);
+		if (key === 'gc') {
+			const previous = merged.find(arg => getFlagKey(arg) === 'gc')?.match(/^-XX:\+Use(\w+)$/)?.[1];
+			const chosen = argument.match(/^-XX:[+-]Use(\w+)$/)[1];
+			const prefix = previous && previous !== chosen ? COLLECTOR_FLAG_PREFIXES[previous] : null;
+			if (prefix) {
+				for (let i = merged.length - 1; i >= 0; i--) {
+					const name = merged[i].match(/^-XX:[+-]?(\w+)/)?.[1];
+					if (name && prefix.test(name)) merged.splice(i, 1);
+				}
+			}
+		}
+		for (let i = merged.length - 1; i >= 0; i--) {
+			if (key ? getFlagKey(merged[i]) === key : merged[i] === argument) merged.splice(i, 1);
+		}
+		merged.push(argument);
+	}
+	return merged;
+}
@@ -5,7 +5,9 @@
 
 import os from 'os';
 import fs from 'fs';
-import { getFileFromArchive } from '../utils/Index.js';
+import { evaluateRules, getFileFromArchive } from '../utils/Index.js';
+import type { Rule } from '../utils/Index.js';
+import MetadataCache from '../utils/MetadataCache.js';
 
 /**
  * Maps Node.js platforms to Mojang's naming scheme for OS in library natives.
@@ -32,10 +34,7 @@ const Arch: Record<string, string> = {
  */
 interface MinecraftLibrary {
 	name?: string;
-	rules?: Array<{
-		os?: { name: string };
-		action?: string;
-	}>;
+	rules?: Rule[];
 	natives?: Record<string, string>;
 	downloads: {
 		artifact?: {
@@ -90,6 +89,8 @@ interface CustomAssetItem {
 interface LibrariesOptions {
 	path: string;        // Base path to the Minecraft folder
 	instance?: string;   // Instance name if using multi-instances
+	offline?: boolean;   // Only use cached metadata
+	log4jConfig?: string; // Custom log4j configuration replacing the version's own
 	[key: string]: any;  // Other fields your code might need
 }
 
@@ -114,14 +115,17 @@ interface LibraryDownload {
 export default class Libraries {
 	private json!: MinecraftVersionJSON;
 	private readonly options: LibrariesOptions;
+	private readonly cache: MetadataCache;
 
-	constructor(options: LibrariesOptions) {
+	constructor(options: LibrariesOptions, cache?: MetadataCache) {
 		this.options = options;
+		this.cache = cache ?? new MetadataCache(options.path, options.offline);
 	}
 
 	/**
 	 * Processes the provided Minecraft version JSON to build a list of libraries
-	 * that need to be downloaded (including the main client jar and the version JSON itself).
+	 * that need to be downloaded (including the main client jar, the log4j configuration
+	 * and the version JSON itself).
 	 *
 	 * @param json A MinecraftVersionJSON object (containing libraries, downloads, etc.)
 	 * @returns An array of LibraryDownload items describing each file.
@@ -134,6 +138,9 @@ export default class Libraries {
 			let artifact: { sha1: string; size: number; path: string; url: string } | undefined;
 			let type = 'Libraries';
 
+			// Skip libraries whose rules exclude this OS, architecture or OS version
+			if (!evaluateRules(lib.rules)) continue;
+
 			if (lib.natives) {
 				// If this library has OS natives, pick the correct classifier
 				const classifiers = lib.downloads.classifiers;
@@ -148,12 +155,6 @@ export default class Libraries {
 					continue;
 				}
 			} else {
-				// If there are rules restricting OS, skip if not matching
-				if (lib.rules && lib.rules[0]?.os?.name) {
-					if (lib.rules[0].os.name !== MojangLib[os.platform()]) {
-						continue;
-					}
-				}
 				artifact = lib.downloads.artifact;
 			}
 
@@ -177,6 +178,19 @@ export default class Libraries {
 			url: this.json.downloads.client.url
 		});
 
+		// Add the log4j configuration (also carries the Log4Shell mitigations),
+		// unless the caller supplies their own
+		const logging = this.json.logging?.client;
+		if (logging?.file?.url && !this.options.log4jConfig) {
+			libraries.push({
+				sha1: logging.file.sha1,
+				size: logging.file.size,
+				path: `assets/log_configs/${logging.file.id}`,
+				type: 'Log',
+				url: logging.file.url
+			});
+		}
+
 		// Add the JSON file for this version as a "CFILE"
 		libraries.push({
 			path: `versions/${this.json.id}/${this.json.id}.json`,
@@ -198,8 +212,11 @@ export default class Libraries {
 	public async GetAssetsOthers(url: string | null): Promise<LibraryDownload[]> {
 		if (!url) return [];
 
-		const response = await fetch(url);
-		const data: CustomAssetItem[] = await response.json();
+		const data: CustomAssetItem[] = await this.cache.resolve('others', url, async () => {
+			const response = await fetch(url);
+			if (!response.ok) throw new Error(`Status ${response.status}`);
+			return response.json();
+		});
 
 		const assets: LibraryDownload[] = [];
 		for (const asset of data) {
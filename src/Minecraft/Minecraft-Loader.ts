@@ -3,10 +3,13 @@
  * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
  */
 
-import { EventEmitter } from 'events';
+import TypedEmitter from '../utils/TypedEmitter.js';
+import fs from 'fs';
 import path from 'path';
 // Note: Adjust the import path according to your actual TypeScript setup.
-import LoaderDownloader, { LoaderType } from '../Minecraft-Loader/index.js';
+import LoaderDownloader, { LoaderEvents, LoaderType } from '../Minecraft-Loader/index.js';
+import MetadataCache from '../utils/MetadataCache.js';
+import { getPathLibraries } from '../utils/Index.js';
 
 /**
  * Describes the loader options, including a path and other configurations.
@@ -20,6 +23,7 @@ interface LoaderOptions {
 		build?: string;    // Build number if applicable (e.g., for Forge)
 	};
 	downloadFileMultiple?: number;   // If your downloader can handle multiple files
+	offline?: boolean;               // Only use cached loader profiles
 }
 
 /**
@@ -39,6 +43,8 @@ interface LoaderJSON {
 	libraries: Array<{
 		loader?: string;
 		name?: string; // Or any other required fields
+		rules?: Array<any>;
+		natives?: Record<string, string>;
 	}>;
 	arguments?: {
 		game?: string[];
@@ -48,31 +54,78 @@ interface LoaderJSON {
 	[key: string]: any;
 }
 
+/**
+ * Events emitted by MinecraftLoader while installing a loader.
+ */
+export type MinecraftLoaderEvents = Pick<LoaderEvents, 'check' | 'progress' | 'extract' | 'patch'>;
+
 /**
  * This class manages the installation and argument-building for a Minecraft
  * mod loader (e.g. Forge, Fabric). It wraps a `loaderDownloader` and emits
  * the same events for progress, extraction, patching, etc.
  */
-export default class MinecraftLoader extends EventEmitter {
+export default class MinecraftLoader extends TypedEmitter<MinecraftLoaderEvents> {
 	private options: MinecraftLoaderOptions;
 	private loaderPath: string;
+	private cache: MetadataCache;
 
-	constructor(options: MinecraftLoaderOptions) {
+	constructor(options: MinecraftLoaderOptions, cache?: MetadataCache) {
 		super();
 		this.options = options;
 		this.loaderPath = path.join(this.options.path, this.options.loader.path);
+		this.cache = cache ?? new MetadataCache(options.path, options.offline);
 	}
 
 	/**
-	 * Installs the loader for a given Minecraft version using a LoaderDownloader,
-	 * returning the loader's JSON on completion. This function emits several events
-	 * for progress reporting and patch notifications.
+	 * Installs the loader for a given Minecraft version, returning the loader's JSON
+	 * on completion. The resulting profile is cached, so an installed loader can still
+	 * be launched when its metadata servers are unreachable.
 	 *
 	 * @param version  The Minecraft version (e.g. "1.19.2")
 	 * @param javaPath Path to the Java executable used by the loader for patching
 	 * @returns        A Promise that resolves to the loader's JSON configuration
 	 */
 	public async GetLoader(version: string, javaPath: string): Promise<LoaderJSON> {
+		const key = this.cacheKey(version);
+		let json: LoaderJSON;
+		try {
+			json = await this.cache.resolve('loaders', key, () => this.installLoader(version, javaPath));
+		} catch (err: any) {
+			throw err?.error ? err : { error: err?.message || String(err) };
+		}
+
+		// A cached profile is only usable if its libraries were installed previously
+		if (this.cache.offline) {
+			const missing = json.libraries
+				.filter(lib => lib.name && !lib.rules && !lib.natives)
+				.map(lib => getPathLibraries(lib.name))
+				.filter(lib => !fs.existsSync(`${this.loaderPath}/libraries/${lib.path}/${lib.name}`));
+			if (missing.length > 0) {
+				throw { error: `Loader ${key} is missing ${missing.length} libraries and cannot be installed while offline` };
+			}
+		}
+		return json;
+	}
+
+	/**
+	 * Returns the profile of a previously installed loader without installing anything.
+	 *
+	 * @param version The Minecraft version (e.g. "1.19.2")
+	 * @returns       The cached loader JSON, or `undefined` if the loader was never installed
+	 */
+	public GetCachedLoader(version: string): LoaderJSON | undefined {
+		return this.cache.read<LoaderJSON>('loaders', this.cacheKey(version));
+	}
+
+	private cacheKey(version: string): string {
+		return `${this.options.loader.type}-${version}-${this.options.loader.build}`;
+	}
+
+	/**
+	 * Installs the loader for a given Minecraft version using a LoaderDownloader.
+	 * This function emits several events for progress reporting and patch notifications.
+	 */
+	private async installLoader(version: string, javaPath: string): Promise<LoaderJSON> {
 		const loader = new LoaderDownloader({
 			path: this.loaderPath,
 			downloadFileMultiple: this.options.downloadFileMultiple,
@@ -101,27 +154,27 @@ export default class MinecraftLoader extends EventEmitter {
 				resolve(modifiedJson);
 			});
 
-			loader.on('extract', (extract: any) => {
+			loader.on('extract', (extract) => {
 				// Forward the "extract" event
 				this.emit('extract', extract);
 			});
 
-			loader.on('progress', (progress: any, size: any, element: any) => {
+			loader.on('progress', (progress, size, element) => {
 				// Forward the "progress" event
 				this.emit('progress', progress, size, element);
 			});
 
-			loader.on('check', (progress: any, size: any, element: any) => {
+			loader.on('check', (progress, size, element) => {
 				// Forward the "check" event
 				this.emit('check', progress, size, element);
 			});
 
-			loader.on('patch', (patch: any) => {
+			loader.on('patch', (patch) => {
 				// Forward the "patch" event
 				this.emit('patch', patch);
 			});
 
-			loader.on('error', (err: any) => {
+			loader.on('error', (err) => {
 				reject(err);
 			});
 		});
@@ -0,0 +1,260 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { EventEmitter } from 'events';
+
+export type LogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL' | 'UNKNOWN';
+
+/**
+ * A single parsed line (or multi-line entry) of game output.
+ */
+export interface LogRecord {
+	timestamp: number | null;     // Epoch milliseconds, if the line had a time
+	thread: string | null;        // e.g. "Render thread"
+	level: LogLevel;
+	logger: string | null;        // e.g. "net.minecraft.client.Minecraft" or "FabricLoader"
+	message: string;              // Message, including continuation lines
+	throwable?: string;           // Stack trace attached to the message, if any
+	stream: 'stdout' | 'stderr';
+	raw: string;                  // Original text of the entry
+}
+
+/**
+ * Filters accepted by LogBuffer.query().
+ */
+export interface LogQuery {
+	level?: LogLevel | LogLevel[]; // Only records with one of these levels
+	since?: number;                // Only records at or after this epoch time
+	search?: string | RegExp;      // Only records whose message matches
+	limit?: number;                // Only the last `limit` matching records
+}
+
+const LEVELS: LogLevel[] = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Matches the plain console layouts used by vanilla, Forge and Fabric:
+ *   [12:00:00] [Render thread/INFO]: message
+ *   [19Oct2026 12:00:00.123] [main/INFO] [cpw.mods.modlauncher.Launcher/MODLAUNCHER]: message
+ *   [12:00:00] [main/INFO] (FabricLoader) message
+ */
+const PLAIN_LINE = /^\[([^\]]+)\] \[([^\]]*)\/(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\](?: \[([^\]]+)\])?(?::| \(([^)]+)\))? ?(.*)$/;
+
+/**
+ * How long to wait for continuation lines (stack traces) before emitting a record.
+ */
+const FLUSH_DELAY = 50;
+
+/**
+ * Turns a stream of raw output chunks into one LogRecord per log entry.
+ * Handles chunks that split or merge lines, multi-line stack traces, and
+ * both the plain console layout and the log4j XML event layout.
+ * Emits "record" for each parsed entry.
+ */
+export default class GameLogParser extends EventEmitter {
+	private readonly stream: 'stdout' | 'stderr';
+	private partial = '';
+	private pending: LogRecord | null = null;
+	private xmlLines: string[] | null = null;
+	private flushTimer: NodeJS.Timeout | null = null;
+
+	constructor(stream: 'stdout' | 'stderr' = 'stdout') {
+		super();
+		this.stream = stream;
+	}
+
+	/**
+	 * Feeds a chunk of raw output. Complete lines are parsed immediately;
+	 * a trailing partial line is kept until the next chunk.
+	 */
+	public write(chunk: string): void {
+		const lines = (this.partial + chunk).split(/\r?\n/);
+		this.partial = lines.pop() ?? '';
+		for (const line of lines) this.parseLine(line);
+		this.scheduleFlush();
+	}
+
+	/**
+	 * Parses whatever is left and emits all pending records. Call when the stream closes.
+	 */
+	public end(): void {
+		if (this.partial) {
+			this.parseLine(this.partial);
+			this.partial = '';
+		}
+		if (this.xmlLines) {
+			this.emitRecord(this.parseXmlEvent(this.xmlLines.join('\n')));
+			this.xmlLines = null;
+		}
+		this.flush();
+	}
+
+	private parseLine(line: string): void {
+		// log4j XML layout: collect everything between <log4j:Event ...> and </log4j:Event>
+		if (this.xmlLines || line.trimStart().startsWith('<log4j:Event')) {
+			this.xmlLines ??= [];
+			this.xmlLines.push(line);
+			if (line.includes('</log4j:Event>')) {
+				this.flush();
+				this.emitRecord(this.parseXmlEvent(this.xmlLines.join('\n')));
+				this.xmlLines = null;
+			}
+			return;
+		}
+
+		const match = line.match(PLAIN_LINE);
+		if (match) {
+			this.flush();
+			const [, time, thread, level, logger, shortLogger, message] = match;
+			this.pending = {
+				timestamp: this.parseTime(time),
+				thread,
+				level: level === 'WARNING' ? 'WARN' : level as LogLevel,
+				logger: logger ? logger.split('/')[0] : shortLogger || null,
+				message,
+				stream: this.stream,
+				raw: line
+			};
+			return;
+		}
+
+		// Anything else continues the previous entry (stack traces, multi-line messages)
+		if (this.pending) {
+			this.pending.raw += `\n${line}`;
+			if (this.pending.throwable !== undefined || /^\s+at |^Caused by: |^\s+\.\.\. \d+ more|^(?:[\w$]+\.)+[\w$]*(?:Exception|Error|Throwable)\b/.test(line)) {
+				this.pending.throwable = this.pending.throwable === undefined ? line : `${this.pending.throwable}\n${line}`;
+			} else {
+				this.pending.message += `\n${line}`;
+			}
+			return;
+		}
+
+		if (line.trim().length === 0) return;
+		this.pending = {
+			timestamp: null,
+			thread: null,
+			level: 'UNKNOWN',
+			logger: null,
+			message: line,
+			stream: this.stream,
+			raw: line
+		};
+	}
+
+	private parseXmlEvent(xml: string): LogRecord {
+		const attribute = (name: string) => xml.match(new RegExp(`${name}="([^"]*)"`))?.[1];
+		const cdata = (tag: string) => xml.match(new RegExp(`<log4j:${tag}>\\s*<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>\\s*</log4j:${tag}>`))?.[1];
+
+		const level = attribute('level')?.toUpperCase() as LogLevel;
+		const timestamp = Number(attribute('timestamp'));
+		const throwable = cdata('Throwable')?.trimEnd();
+		return {
+			timestamp: Number.isFinite(timestamp) ? timestamp : null,
+			thread: attribute('thread') ?? null,
+			level: LEVELS.includes(level) ? level : 'UNKNOWN',
+			logger: attribute('logger') ?? null,
+			message: cdata('Message') ?? '',
+			...(throwable ? { throwable } : {}),
+			stream: this.stream,
+			raw: xml
+		};
+	}
+
+	/**
+	 * Converts "12:00:00", "12:00:00.123" or "19Oct2026 12:00:00.123" to epoch milliseconds.
+	 * Times without a date are assumed to be today.
+	 */
+	private parseTime(time: string): number | null {
+		const match = time.match(/^(?:(\d{1,2})([A-Za-z]{3})(\d{4}) )?(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/);
+		if (!match) return null;
+
+		const [, day, month, year, hours, minutes, seconds, millis] = match;
+		const date = new Date();
+		if (day && month && year) {
+			const monthIndex = MONTHS.indexOf(month.charAt(0).toUpperCase() + month.slice(1).toLowerCase());
+			if (monthIndex === -1) return null;
+			date.setFullYear(Number(year), monthIndex, Number(day));
+		}
+		date.setHours(Number(hours), Number(minutes), Number(seconds), Number((millis || '0').padEnd(3, '0')));
+		return date.getTime();
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer) clearTimeout(this.flushTimer);
+		if (!this.pending) return;
+		this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+	}
+
+	private flush(): void {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		if (this.pending) {
+			const record = this.pending;
+			this.pending = null;
+			this.emitRecord(record);
+		}
+	}
+
+	private emitRecord(record: LogRecord): void {
+		this.emit('record', record);
+	}
+}
+
+/**
+ * Fixed-size ring buffer keeping the most recent log records.
+ */
+export class LogBuffer {
+	private readonly records: LogRecord[];
+	private readonly capacity: number;
+	// Index of the oldest record once the buffer is full
+	private head = 0;
+	private count = 0;
+
+	constructor(capacity: number = 1000) {
+		this.capacity = Math.max(1, capacity);
+		this.records = new Array(this.capacity);
+	}
+
+	public push(record: LogRecord): void {
+		this.records[(this.head + this.count) % this.capacity] = record;
+		if (this.count < this.capacity) this.count++;
+		else this.head = (this.head + 1) % this.capacity;
+	}
+
+	/**
+	 * Returns the buffered records matching the query, oldest first.
+	 */
+	public query(query: LogQuery = {}): LogRecord[] {
+		const levels = query.level ? [query.level].flat() : null;
+		let result = this.toArray().filter(record => {
+			if (levels && !levels.includes(record.level)) return false;
+			if (query.since !== undefined && (record.timestamp === null || record.timestamp < query.since)) return false;
+			if (query.search !== undefined) {
+				if (typeof query.search === 'string' ? !record.message.includes(query.search) : !query.search.test(record.message)) return false;
+			}
+			return true;
+		});
+		if (query.limit !== undefined) result = query.limit <= 0 ? [] : result.slice(-query.limit);
+		return result;
+	}
+
+	public clear(): void {
+		this.records.fill(undefined);
+		this.head = 0;
+		this.count = 0;
+	}
+
+	public get size(): number {
+		return this.count;
+	}
+
+	private toArray(): LogRecord[] {
+		const records: LogRecord[] = [];
+		for (let i = 0; i < this.count; i++) records.push(this.records[(this.head + i) % this.capacity]);
+		return records;
+	}
+}
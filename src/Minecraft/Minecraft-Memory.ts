@@ -0,0 +1,191 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import semver from 'semver';
+
+/**
+ * Everything the memory sizing depends on.
+ */
+export interface MemorySizingInput {
+	min?: string;                  // "auto" or an explicit size such as "1G"; half of `max` if not set
+	max?: string;                  // "auto" or an explicit size such as "4G"
+	cap?: string;                  // Upper limit for an automatic `max` (e.g. "8G")
+	version: string;               // Resolved Minecraft version
+	loader?: string | null;        // Loader type, if a loader is enabled
+	gameDirectory: string;         // Where the `mods` folder lives
+	javaPath?: string;             // Java executable, used to detect 32-bit runtimes
+	totalMemory?: number;          // Bytes; defaults to os.totalmem()
+	freeMemory?: number;           // Bytes; defaults to os.freemem()
+}
+
+/**
+ * The sizes chosen for `-Xms`/`-Xmx`, and why.
+ */
+export interface MemoryDecision {
+	min: string;                   // e.g. "2048M"
+	max: string;                   // e.g. "4096M"
+	automatic: boolean;            // `true` if at least one value was computed
+	totalMemory: number;           // Bytes
+	freeMemory: number;            // Bytes
+	modCount: number;
+	java32Bit: boolean;
+	reasons: string[];             // Human-readable explanation of each adjustment
+}
+
+const MB = 1024 * 1024;
+const STEP = 256;                  // Sizes are rounded down to multiples of 256 MB
+const FLOOR = 1024;                // Never pick less than 1 GB for -Xmx
+const CEILING = 16384;             // More than 16 GB only makes GC pauses longer
+const JAVA_32_BIT_LIMIT = 1536;    // Largest heap a 32-bit JVM can reliably reserve
+
+/**
+ * Picks `-Xms`/`-Xmx` from the system's memory, the installed mods, the loader
+ * and the Minecraft version when `memory.min` or `memory.max` is `"auto"`.
+ */
+export default class MemorySizer {
+	/**
+	 * Resolves the memory settings. Explicit sizes are kept as they are; `"auto"` values are computed,
+	 * and so is a missing `min`. An explicit size above what a 32-bit Java can reserve is only reported.
+	 */
+	public compute(input: MemorySizingInput): MemoryDecision {
+		const totalMemory = input.totalMemory ?? os.totalmem();
+		const freeMemory = input.freeMemory ?? os.freemem();
+		const modCount = this.countMods(input.gameDirectory);
+		const java32Bit = this.isJava32Bit(input.javaPath);
+		const reasons: string[] = [];
+
+		const autoMax = input.max === 'auto';
+		const autoMin = input.min === 'auto' || !input.min;
+		let max = autoMax ? this.recommendMax(input, totalMemory, freeMemory, modCount, reasons) : this.parseSize(input.max);
+
+		if (java32Bit && max > JAVA_32_BIT_LIMIT) {
+			if (autoMax) {
+				reasons.push(`32-bit Java cannot use more than ${JAVA_32_BIT_LIMIT} MB; install a 64-bit Java to use more memory`);
+				max = JAVA_32_BIT_LIMIT;
+			} else {
+				reasons.push(`32-bit Java may fail to start with more than ${JAVA_32_BIT_LIMIT} MB (${input.max} requested)`);
+			}
+		}
+
+		let min = autoMin ? Math.max(512, this.round((max ?? 2048) / 2)) : this.parseSize(input.min);
+		if (autoMin) {
+			if (max && min > max) min = max;
+			reasons.push(`Initial heap set to half of the maximum (${min} MB)`);
+		}
+		let initial = autoMin ? `${min}M` : input.min;
+		if (autoMax && !autoMin && min > max) {
+			reasons.push(`Initial heap ${input.min} lowered to the maximum (${max} MB)`);
+			initial = `${max}M`;
+		}
+
+		return {
+			min: initial,
+			max: autoMax ? `${max}M` : input.max,
+			automatic: autoMax || autoMin,
+			totalMemory,
+			freeMemory,
+			modCount,
+			java32Bit,
+			reasons
+		};
+	}
+
+	/**
+	 * Works out how much heap the game needs, then fits it into the memory the system can spare.
+	 */
+	private recommendMax(input: MemorySizingInput, totalMemory: number, freeMemory: number, modCount: number, reasons: string[]): number {
+		const version = semver.coerce(input.version);
+		let wanted: number;
+		if (version && semver.lt(version, '1.13.0')) {
+			wanted = 1536;
+			reasons.push(`Minecraft ${input.version} needs about ${wanted} MB`);
+		} else if (version && semver.lt(version, '1.18.0')) {
+			wanted = 2048;
+			reasons.push(`Minecraft ${input.version} needs about ${wanted} MB`);
+		} else {
+			wanted = 3072;
+			reasons.push(`Minecraft ${input.version} needs about ${wanted} MB`);
+		}
+
+		if (input.loader) {
+			// Forge-based loaders keep much more of each mod in memory than Fabric-based ones
+			const heavy = input.loader === 'forge' || input.loader === 'neoforge';
+			const perMod = heavy ? 40 : 20;
+			const extra = (heavy ? 512 : 256) + modCount * perMod;
+			wanted += extra;
+			reasons.push(`${input.loader} with ${modCount} mods adds about ${extra} MB`);
+		}
+
+		// Leave room for the operating system and the launcher itself
+		const totalMb = totalMemory / MB;
+		const reserve = Math.max(1536, totalMb * 0.25);
+		const budget = totalMb - reserve;
+		let max = Math.min(wanted, CEILING);
+		if (max > budget) {
+			max = budget;
+			reasons.push(`Limited to ${this.round(budget)} MB to leave ${Math.round(reserve)} MB of the system's ${Math.round(totalMb)} MB for other programs`);
+		}
+
+		const freeMb = freeMemory / MB;
+		if (max > freeMb) {
+			const lowered = Math.max(FLOOR, Math.min(max, freeMb - 256));
+			if (lowered < max) {
+				reasons.push(`Only ${Math.round(freeMb)} MB of memory is free right now; close other programs to allow more`);
+				max = lowered;
+			}
+		}
+
+		const cap = this.parseSize(input.cap);
+		if (cap && max > cap) {
+			reasons.push(`Capped at ${cap} MB by the memory cap`);
+			max = cap;
+		}
+
+		max = Math.max(FLOOR, this.round(max));
+		reasons.push(`Maximum heap set to ${max} MB`);
+		return max;
+	}
+
+	/**
+	 * Counts the mod jars installed in the game directory.
+	 */
+	private countMods(gameDirectory: string): number {
+		const directory = `${gameDirectory}/mods`;
+		if (!fs.existsSync(directory)) return 0;
+		return fs.readdirSync(directory).filter(name => name.endsWith('.jar')).length;
+	}
+
+	/**
+	 * Detects a 32-bit Java from the `release` file of its installation, falling
+	 * back to the system architecture for runtimes downloaded by the launcher.
+	 */
+	private isJava32Bit(javaPath?: string): boolean {
+		if (javaPath) {
+			const release = path.join(path.dirname(path.dirname(javaPath)), 'release');
+			try {
+				const arch = fs.readFileSync(release, 'utf-8').match(/^OS_ARCH="?([^"\r\n]+)"?/m)?.[1];
+				if (arch) return /^(?:x86|i[3-6]86|arm|armv7\w*)$/i.test(arch);
+			} catch { }
+		}
+		return ['ia32', 'arm'].includes(os.arch());
+	}
+
+	/**
+	 * Converts "512M", "4G" or "4294967296" (bytes, as the JVM reads it) to megabytes.
+	 */
+	private parseSize(size?: string): number | null {
+		const match = size?.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)b?$/i);
+		if (!match) return null;
+		const factor: Record<string, number> = { '': 1 / MB, k: 1 / 1024, m: 1, g: 1024, t: 1024 * 1024 };
+		return Math.round(Number(match[1]) * factor[match[2].toLowerCase()]);
+	}
+
+	private round(megabytes: number): number {
+		return Math.floor(megabytes / STEP) * STEP;
+	}
+}
@@ -4,7 +4,9 @@
  */
 
 import fs from 'fs';
-import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import TypedEmitter from './TypedEmitter.js';
+import FileStore from './FileStore.js';
 import { fromAnyReadable } from './Index.js';
 import { 
     DownloadError, 
@@ -49,6 +51,23 @@ async function fetchWithRetry(url: string, init?: RequestInit, retries = 3, dela
 	throw lastError;
 }
 
+/**
+ * Feeds the contents of a file into a hash.
+ */
+async function hashFile(filePath: string, hash: crypto.Hash): Promise<void> {
+	for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+}
+
+/**
+ * Saved next to a `.part` file as `<file>.part.json`, to tell whether the
+ * server still has the same version of the file when resuming.
+ */
+interface PartialDownload {
+	url: string;
+	etag: string | null;
+	lastModified: string | null;
+}
+
 /**
  * Describes a single file to be downloaded by the Downloader class.
  */
@@ -59,20 +78,123 @@ export interface DownloadOptions {
 	path: string;
 	/** The total length of the file (in bytes), if known */
 	length?: number;
+	/** Same as `length`, as BundleItems name it */
+	size?: number;
 	/** Local folder in which the file's path resides */
 	folder: string;
 	/** Optional type descriptor, used when emitting 'progress' events */
 	type?: string;
+	/** Expected SHA-1 hash, checked while the file is written */
+	sha1?: string;
+}
+
+/**
+ * Options of a Downloader. Both can be changed while downloading.
+ */
+export interface DownloaderOptions {
+	/** Maximum bytes per second across every download of this Downloader (unlimited if not set) */
+	bandwidthLimit?: number | null;
+	/** Maximum parallel downloads per host name, merged over the defaults for the Maven repositories */
+	hostConcurrency?: Record<string, number>;
+	/**
+	 * Shared store (or its directory). Files with a `sha1` are linked from it when it has them,
+	 * and added to it once downloaded by `downloadFileMultiple`.
+	 */
+	store?: FileStore | string | null;
+}
+
+/**
+ * Parallel downloads allowed per host when downloading several files. The Maven
+ * repositories are much smaller than Mojang's CDN and get fewer connections.
+ */
+const DEFAULT_HOST_CONCURRENCY: Record<string, number> = {
+	'maven.minecraftforge.net': 4,
+	'maven.neoforged.net': 4,
+	'maven.creeperhost.net': 4,
+	'maven.fabricmc.net': 4,
+	'maven.quiltmc.org': 4,
+	'repo.legacyfabric.net': 4
+};
+
+/**
+ * Events emitted by Downloader.
+ */
+export interface DownloaderEvents {
+	/** Bytes downloaded so far, total bytes (0 if unknown) and the file's type */
+	progress: [downloaded: number, total: number, type?: string];
+	/** Average download speed in bytes per second, after the bandwidth limit */
+	speed: [bytesPerSecond: number];
+	/** Estimated time remaining in seconds */
+	estimated: [seconds: number];
+	error: [error: Error];
 }
 
 /**
  * A class responsible for downloading single or multiple files,
  * emitting events for progress, speed, estimated time, and errors.
  */
-export default class Downloader extends EventEmitter {
+export default class Downloader extends TypedEmitter<DownloaderEvents> {
+	private bandwidthLimit: number | null;
+	private hostConcurrency: Record<string, number>;
+	// Time until which the bytes already received use up the bandwidth limit
+	private throttledUntil = 0;
+	// Streams paused by throttle(), with their resume timer
+	private throttled = new Map<import('node:stream').Readable, { timer: NodeJS.Timeout; resumeAt: number }>();
+	private store: FileStore | null;
+
+	constructor(options: DownloaderOptions = {}) {
+		super();
+		this.bandwidthLimit = options.bandwidthLimit > 0 ? options.bandwidthLimit : null;
+		this.hostConcurrency = { ...DEFAULT_HOST_CONCURRENCY, ...options.hostConcurrency };
+		this.store = typeof options.store === 'string' ? new FileStore(options.store) : options.store ?? null;
+	}
+
+	/**
+	 * Caps the download speed, including downloads already running.
+	 *
+	 * @param bytesPerSecond Maximum speed, or `null` (or 0) for no limit
+	 */
+	public setBandwidthLimit(bytesPerSecond: number | null): void {
+		const previous = this.bandwidthLimit;
+		this.bandwidthLimit = bytesPerSecond > 0 ? bytesPerSecond : null;
+
+		// The time still owed for bytes already received is scaled to the new speed,
+		// and paused streams are rescheduled, or resumed when there is no limit any more
+		const now = Date.now();
+		const scale = previous && this.bandwidthLimit ? previous / this.bandwidthLimit : 0;
+		this.throttledUntil = now + Math.max(this.throttledUntil - now, 0) * scale;
+		for (const [stream, { timer, resumeAt }] of this.throttled) {
+			clearTimeout(timer);
+			this.pauseUntil(stream, now + Math.max(resumeAt - now, 0) * scale);
+		}
+	}
+
+	public getBandwidthLimit(): number | null {
+		return this.bandwidthLimit;
+	}
+
+	/**
+	 * Limits how many files are downloaded in parallel from a host. Applies to
+	 * the next files started by `downloadFileMultiple`.
+	 *
+	 * @param host Host name, e.g. "maven.fabricmc.net"
+	 * @param limit Maximum parallel downloads, or `null` for no limit besides the overall one
+	 */
+	public setHostConcurrency(host: string, limit: number | null): void {
+		if (limit > 0) this.hostConcurrency[host.toLowerCase()] = limit;
+		else delete this.hostConcurrency[host.toLowerCase()];
+	}
+
+	public getHostConcurrency(host: string): number {
+		return this.hostConcurrency[host.toLowerCase()] ?? Infinity;
+	}
+
 	/**
 	 * Downloads a single file from the given URL to the specified local path.
 	 * Emits "progress" events with the number of bytes downloaded and total size.
+	 * 
+	 * The file is written to `<fileName>.part` and renamed once complete. A download that
+	 * stopped midway is resumed from the `.part` file when the server allows it.
 	 *
 	 * @param url - The remote URL to download from
 	 * @param dirPath - Local folder path where the file is saved
@@ -95,11 +217,12 @@ export default class Downloader extends EventEmitter {
 			throw fsError;
 		}
 
-		const writer = fs.createWriteStream(`${dirPath}/${fileName}`);
+		const filePath = `${dirPath}/${fileName}`;
 		let response: Response;
+		let offset = 0;
 
 		try {
-			response = await fetchWithRetry(url);
+			({ response, offset } = await this.requestPartial(url, filePath));
 			
 			if (!response.ok) {
 				const downloadError = new DownloadError(
@@ -112,8 +235,6 @@ export default class Downloader extends EventEmitter {
 				throw downloadError;
 			}
 		} catch (err: any) {
-			writer.destroy();
-			
 			if (err instanceof DownloadError) {
 				throw err;
 			}
@@ -124,22 +245,25 @@ export default class Downloader extends EventEmitter {
 		}
 
 		const contentLength = response.headers.get('content-length');
-		const totalSize = contentLength ? parseInt(contentLength, 10) : 0;
+		const totalSize = contentLength ? offset + parseInt(contentLength, 10) : 0;
+		const writer = fs.createWriteStream(`${filePath}.part`, { flags: offset > 0 ? 'a' : 'w' });
 
-		let downloaded = 0;
+		let downloaded = offset;
+		if (offset > 0) this.emit('progress', downloaded, totalSize);
 
 		return new Promise<void>((resolve, reject) => {
 			const body = fromAnyReadable(response.body as any);
 
 			body.on('data', (chunk: Buffer) => {
 				downloaded += chunk.length;
+				this.throttle(body, chunk.length);
 				this.emit('progress', downloaded, totalSize);
 				try {
 					writer.write(chunk);
 				} catch (err: any) {
 					const fsError = new FileSystemError(
 						`Failed to write to file: ${err.message}`,
-						`${dirPath}/${fileName}`,
+						filePath,
 						'write',
 						false,
 						ErrorCodes.DISK_FULL
@@ -151,8 +275,29 @@ export default class Downloader extends EventEmitter {
 			});
 
 			body.on('end', () => {
-				writer.end();
-				resolve();
+				writer.end(() => {
+					// A connection closed early still ends the body: keep the .part file to resume
+					if (totalSize && downloaded !== totalSize) {
+						const downloadError = new DownloadError(
+							`Download of ${fileName} stopped at ${downloaded} of ${totalSize} bytes`,
+							url,
+							undefined,
+							ErrorCodes.DOWNLOAD_INTERRUPTED,
+							{ downloaded, totalSize }
+						);
+						this.emit('error', downloadError);
+						reject(downloadError);
+						return;
+					}
+					try {
+						this.completePartial(filePath);
+						resolve();
+					} catch (err: any) {
+						const fsError = new FileSystemError(`Failed to move ${fileName}.part into place: ${err.message}`, filePath, 'rename', false);
+						this.emit('error', fsError);
+						reject(fsError);
+					}
+				});
 			});
 
 			body.on('error', (err: Error) => {
@@ -166,7 +311,7 @@ export default class Downloader extends EventEmitter {
 				writer.destroy();
 				const fsError = new FileSystemError(
 					`File write error: ${err.message}`,
-					`${dirPath}/${fileName}`,
+					filePath,
 					'write',
 					false
 				);
@@ -181,7 +326,12 @@ export default class Downloader extends EventEmitter {
 	 * Emits "progress" events with cumulative bytes downloaded vs. total size,
 	 * as well as "speed" and "estimated" events for speed and ETA calculations.
 	 * 
-	 * Features adaptive concurrency control based on network performance.
+	 * Features adaptive concurrency control based on network performance, within
+	 * the per-host limits, and the bandwidth limit shared by every download.
+	 * 
+	 * Files with a `sha1` are hashed as they stream to disk. A file that does not match
+	 * is deleted and downloaded again, and after the last attempt a `DownloadError` with
+	 * `CHECKSUM_MISMATCH` is emitted, with the expected and actual hashes in its context.
 	 */
 	public async downloadFileMultiple(
 		files: DownloadOptions[],
@@ -193,7 +343,9 @@ export default class Downloader extends EventEmitter {
 		if (limit > files.length) limit = files.length;
 		let completed = 0;
 		let downloaded = 0;
-		let queued = 0;
+		// Bytes received from the network, for the speed: unlike `downloaded`, resumed
+		// files do not add to it and files downloaded again do not take from it
+		let transferred = 0;
 		let start = Date.now();
 		let before = 0;
 		const speeds: number[] = [];
@@ -205,6 +357,7 @@ export default class Downloader extends EventEmitter {
 		let errorCount = 0;
 		const ERROR_RATE_LIMIT = 1000; // Minimum ms between error emissions
 		const MAX_BURST_ERRORS = 5; // Maximum errors in a burst
+		const MAX_CHECKSUM_ATTEMPTS = 3; // Downloads of a file whose hash does not match before giving up
 		
 		// Completion tracking to prevent duplicate logs
 		let isCompleted = false;
@@ -217,10 +370,39 @@ export default class Downloader extends EventEmitter {
 		const adaptInterval = 1000; // Adapt every second
 		let lastAdaptTime = Date.now();
 
+		// Requests in flight, stopped on abort so their .part files can be resumed
+		const activeRequests = new Set<AbortController>();
+
+		// Files waiting to start, per host, and downloads running per host
+		const pending = new Map<string, DownloadOptions[]>();
+		const running = new Map<string, number>();
+		let active = 0;
+		const getHost = (file: DownloadOptions): string => {
+			try {
+				return new URL(file.url).hostname.toLowerCase();
+			} catch {
+				return '';
+			}
+		};
+		for (const file of files) {
+			const host = getHost(file);
+			if (!pending.has(host)) pending.set(host, []);
+			pending.get(host).push(file);
+		}
+		// Most downloads that can run at once with the per-host limits of the hosts left
+		const getCapacity = (): number => {
+			let capacity = 0;
+			for (const [host, queue] of pending) {
+				if (queue.length > 0 || running.get(host)) capacity += this.getHostConcurrency(host);
+			}
+			return capacity;
+		};
+
 		// Handle abort signal
 		if (abortSignal) {
 			abortSignal.addEventListener('abort', () => {
 				aborted = true;
+				for (const request of activeRequests) request.abort();
 			});
 		}
 
@@ -248,7 +430,7 @@ export default class Downloader extends EventEmitter {
 		const estimated = setInterval(() => {
 			if (aborted) return;
 			const duration = (Date.now() - start) / 1000;
-			const chunkDownloaded = downloaded - before;
+			const chunkDownloaded = transferred - before;
 			if (speeds.length >= 5) speeds.shift();
 			speeds.push(chunkDownloaded / duration);
 
@@ -259,18 +441,20 @@ export default class Downloader extends EventEmitter {
 			this.emit('estimated', timeRemaining);
 
 			start = Date.now();
-			before = downloaded;
+			before = transferred;
 			
 			// Adaptive concurrency control
 			const now = Date.now();
 			if (now - lastAdaptTime >= adaptInterval) {
 				lastAdaptTime = now;
 				
-				// Adjust concurrency based on performance
-				if (consecutiveSuccesses >= 3 && currentLimit < adaptiveLimit) {
-					currentLimit = Math.min(currentLimit + 2, adaptiveLimit);
+				// Adjust concurrency based on performance, never past what the host limits allow
+				const maxLimit = Math.min(adaptiveLimit, getCapacity());
+				if (consecutiveSuccesses >= 3 && currentLimit < maxLimit) {
+					currentLimit = Math.min(currentLimit + 2, maxLimit);
 					consecutiveSuccesses = 0;
 					console.log(`[Downloader] Increased concurrency to ${currentLimit}`);
+					downloadNext();
 				} else if (consecutiveFailures >= 2 && currentLimit > 3) {
 					currentLimit = Math.max(currentLimit - 1, 3);
 					consecutiveFailures = 0;
@@ -279,11 +463,33 @@ export default class Downloader extends EventEmitter {
 			}
 		}, 500);
 
-		const downloadNext = async (): Promise<void> => {
-			if (aborted || queued >= files.length) return;
+		// Starts waiting files while there are free slots, overall and for their host
+		const downloadNext = (): void => {
+			while (!aborted && active < currentLimit) {
+				let next: string | undefined;
+				for (const [host, queue] of pending) {
+					if (queue.length > 0 && (running.get(host) ?? 0) < this.getHostConcurrency(host)) {
+						next = host;
+						break;
+					}
+				}
+				if (next === undefined) return;
 
-			const file = files[queued++];
-			
+				const file = pending.get(next).shift();
+				running.set(next, (running.get(next) ?? 0) + 1);
+				active++;
+				downloadTask(file);
+			}
+		};
+
+		// Frees the file's slot once it is downloaded or failed
+		const release = (file: DownloadOptions): void => {
+			const host = getHost(file);
+			running.set(host, running.get(host) - 1);
+			active--;
+		};
+
+		const downloadTask = async (file: DownloadOptions): Promise<void> => {
 			try {
 				if (!fs.existsSync(file.folder)) {
 					fs.mkdirSync(file.folder, { recursive: true, mode: 0o777 });
@@ -299,12 +505,36 @@ export default class Downloader extends EventEmitter {
 				errors.push(fsError);
 				emitErrorWithRateLimit(fsError);
 				completed++;
+				release(file);
 				downloadNext();
 				return;
 			}
 
-			const writer = fs.createWriteStream(file.path, { flags: 'w', mode: 0o777 });
+			// Files the shared store already has are linked instead of downloaded
+			if (this.store && file.sha1 && this.store.has(file.sha1, file.size ?? file.length)) {
+				try {
+					await this.store.checkout(file.sha1, file.path);
+					downloaded += fs.statSync(file.path).size;
+					this.emit('progress', downloaded, size, file.type);
+					completed++;
+					consecutiveSuccesses++;
+					release(file);
+					downloadNext();
+					return;
+				} catch (err: any) {
+					console.warn(`[Downloader] ${err.message}, downloading it instead`);
+				}
+			}
+
+			await downloadAttempt(file, 1);
+		};
+
+		const downloadAttempt = async (file: DownloadOptions, attempt: number): Promise<void> => {
+			let writer: fs.WriteStream | null = null;
+			const hash = file.sha1 ? crypto.createHash('sha1') : null;
+			let received = 0;
 			const controller = new AbortController();
+			activeRequests.add(controller);
 			const timeoutId = setTimeout(() => {
 				controller.abort();
 				const timeoutError = new TimeoutError(
@@ -322,7 +552,7 @@ export default class Downloader extends EventEmitter {
 					throw abortError;
 				}
 				
-				const response = await fetchWithRetry(file.url, { signal: controller.signal }, 3, 2000);
+				const { response, offset } = await this.requestPartial(file.url, file.path, { signal: controller.signal }, 3, 2000);
 				clearTimeout(timeoutId);
 
 				if (!response.ok) {
@@ -335,11 +565,24 @@ export default class Downloader extends EventEmitter {
 					throw downloadError;
 				}
 
+				// Bytes resumed from the .part file count as downloaded, but not towards the speed
+				if (offset > 0) {
+					if (hash) await hashFile(`${file.path}.part`, hash);
+					received = offset;
+					downloaded += offset;
+					this.emit('progress', downloaded, size, file.type);
+				}
+				writer = fs.createWriteStream(`${file.path}.part`, { flags: offset > 0 ? 'a' : 'w', mode: 0o777 });
+
 				const stream = fromAnyReadable(response.body as any);
 
 				stream.on('data', (chunk: Buffer) => {
 					if (aborted) return;
 					downloaded += chunk.length;
+					transferred += chunk.length;
+					received += chunk.length;
+					this.throttle(stream, chunk.length);
+					hash?.update(chunk);
 					this.emit('progress', downloaded, size, file.type);
 					try {
 						writer.write(chunk);
@@ -356,27 +599,76 @@ export default class Downloader extends EventEmitter {
 				});
 
 				stream.on('end', () => {
-					writer.end();
-					completed++;
-					consecutiveSuccesses++;
-					consecutiveFailures = 0;
-					downloadNext();
+					writer.end(() => {
+						activeRequests.delete(controller);
+						// Keep the .part file for the next download to resume
+						if (aborted) return;
+
+						const actual = hash?.digest('hex');
+						if (hash && actual !== file.sha1.toLowerCase()) {
+							// Take the bad copy back out of the progress before trying again
+							downloaded -= received;
+							this.emit('progress', downloaded, size, file.type);
+							this.discardPartial(file.path);
+
+							if (attempt < MAX_CHECKSUM_ATTEMPTS) {
+								console.warn(`[Downloader] Checksum mismatch for ${file.path} (attempt ${attempt}/${MAX_CHECKSUM_ATTEMPTS}), downloading it again`);
+								downloadAttempt(file, attempt + 1);
+								return;
+							}
+							const checksumError = new DownloadError(
+								`Checksum mismatch for ${file.path} after ${attempt} attempts: expected ${file.sha1}, got ${actual}`,
+								file.url,
+								undefined,
+								ErrorCodes.CHECKSUM_MISMATCH,
+								{ path: file.path, expected: file.sha1, actual, attempts: attempt }
+							);
+							errors.push(checksumError);
+							emitErrorWithRateLimit(checksumError);
+							completed++;
+							consecutiveFailures++;
+							consecutiveSuccesses = 0;
+							release(file);
+							downloadNext();
+							return;
+						}
+						try {
+							this.completePartial(file.path);
+							if (this.store && file.sha1) {
+								this.store.add(file.path, file.sha1).catch((err) => console.warn(`[Downloader] ${err.message}`));
+							}
+						} catch (err: any) {
+							const fsError = new FileSystemError(`Failed to move ${file.path}.part into place: ${err.message}`, file.path, 'rename', false);
+							errors.push(fsError);
+							emitErrorWithRateLimit(fsError);
+						}
+						completed++;
+						consecutiveSuccesses++;
+						consecutiveFailures = 0;
+						release(file);
+						downloadNext();
+					});
 				});
 
 				stream.on('error', (err) => {
 					writer.destroy();
+					activeRequests.delete(controller);
+					if (aborted) return;
 					const wrappedError = wrapError(err, { url: file.url, path: file.path });
 					errors.push(wrappedError);
 					emitErrorWithRateLimit(wrappedError);
 					completed++;
 					consecutiveFailures++;
 					consecutiveSuccesses = 0;
+					release(file);
 					downloadNext();
 				});
 
 			} catch (e: any) {
-				writer.destroy();
+				writer?.destroy();
+				activeRequests.delete(controller);
 				clearTimeout(timeoutId);
+				if (aborted) return;
 				
 				let error: Error;
 				if (e instanceof Error) {
@@ -401,18 +693,18 @@ export default class Downloader extends EventEmitter {
 				completed++;
 				consecutiveFailures++;
 				consecutiveSuccesses = 0;
+				release(file);
 				downloadNext();
 			}
 		};
 
-		for (let i = 0; i < limit; i++) {
-			downloadNext();
-		}
+		downloadNext();
 
 		return new Promise((resolve, reject) => {
 			const checkCompletion = () => {
 				if (aborted) {
 					clearInterval(estimated);
+					clearInterval(interval);
 					reject(new DownloadError('Download aborted', '', undefined, ErrorCodes.DOWNLOAD_INTERRUPTED));
 					return;
 				}
@@ -451,6 +743,113 @@ export default class Downloader extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Counts received bytes against the bandwidth limit, and pauses the stream for
+	 * as long as they are ahead of it. Every stream shares the same budget.
+	 */
+	private throttle(stream: import('node:stream').Readable, bytes: number): void {
+		if (!this.bandwidthLimit) return;
+		const now = Date.now();
+		this.throttledUntil = Math.max(this.throttledUntil, now) + bytes * 1000 / this.bandwidthLimit;
+		this.pauseUntil(stream, this.throttledUntil);
+	}
+
+	/**
+	 * Pauses a stream until `resumeAt`, or resumes it now if that time has passed.
+	 */
+	private pauseUntil(stream: import('node:stream').Readable, resumeAt: number): void {
+		const delay = resumeAt - Date.now();
+		if (delay <= 0) {
+			this.throttled.delete(stream);
+			stream.resume();
+			return;
+		}
+		stream.pause();
+		const timer = setTimeout(() => {
+			this.throttled.delete(stream);
+			stream.resume();
+		}, delay);
+		this.throttled.set(stream, { timer, resumeAt });
+	}
+
+	/**
+	 * Requests a file, continuing `<filePath>.part` with a Range request when it was left by
+	 * a download of the same URL and the server still has the same version of the file,
+	 * according to its ETag or Last-Modified date. Otherwise the whole file is requested.
+	 *
+	 * @returns The response, and the size of the `.part` file it continues (0 when starting over)
+	 */
+	private async requestPartial(
+		url: string,
+		filePath: string,
+		init: RequestInit = {},
+		retries: number = 3,
+		delay: number = 1000
+	): Promise<{ response: Response; offset: number }> {
+		const part = `${filePath}.part`;
+		const partial = this.readPartial(filePath);
+		const offset = partial?.url === url && fs.existsSync(part) ? fs.statSync(part).size : 0;
+		const validator = partial?.etag ?? partial?.lastModified;
+
+		if (offset > 0 && validator) {
+			const response = await fetchWithRetry(url, { ...init, headers: { Range: `bytes=${offset}-`, 'If-Range': validator } }, retries, delay);
+			const range = response.headers.get('content-range')?.match(/^bytes (\d+)-/);
+			if (response.status === 206 && range && parseInt(range[1], 10) === offset) {
+				return { response, offset };
+			}
+			// The file changed or the server ignores ranges: it sent the whole file
+			if (response.status === 200) {
+				this.savePartial(filePath, url, response);
+				return { response, offset: 0 };
+			}
+			await response.body?.cancel();
+		}
+
+		const response = await fetchWithRetry(url, init, retries, delay);
+		if (response.ok) this.savePartial(filePath, url, response);
+		return { response, offset: 0 };
+	}
+
+	private readPartial(filePath: string): PartialDownload | null {
+		try {
+			return JSON.parse(fs.readFileSync(`${filePath}.part.json`, 'utf-8'));
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Remembers the response's validators. Weak ETags cannot be used with `If-Range`,
+	 * and without any validator the download cannot be resumed safely.
+	 */
+	private savePartial(filePath: string, url: string, response: Response): void {
+		const etag = response.headers.get('etag');
+		const partial: PartialDownload = {
+			url,
+			etag: etag && !etag.startsWith('W/') ? etag : null,
+			lastModified: response.headers.get('last-modified')
+		};
+		try {
+			if (partial.etag || partial.lastModified) fs.writeFileSync(`${filePath}.part.json`, JSON.stringify(partial, null, 4));
+			else fs.rmSync(`${filePath}.part.json`, { force: true });
+		} catch (err: any) {
+			console.warn(`[Downloader] Failed to save resume data for ${filePath}: ${err.message}`);
+		}
+	}
+
+	/**
+	 * Moves a finished `.part` file to its final path.
+	 */
+	private completePartial(filePath: string): void {
+		fs.renameSync(`${filePath}.part`, filePath);
+		fs.rmSync(`${filePath}.part.json`, { force: true });
+	}
+
+	private discardPartial(filePath: string): void {
+		fs.rmSync(`${filePath}.part`, { force: true });
+		fs.rmSync(`${filePath}.part.json`, { force: true });
+	}
+
 	/**
 	 * Performs a HEAD request on the given URL to check if it is valid (status=200)
 	 * and retrieves the "content-length" if available.
@@ -53,8 +53,8 @@ export class DownloadError extends NetworkError {
     public readonly url: string;
     public readonly statusCode?: number;
 
-    constructor(message: string, url: string, statusCode?: number, code: string = 'DOWNLOAD_ERROR') {
-        super(message, code, { url, statusCode });
+    constructor(message: string, url: string, statusCode?: number, code: string = 'DOWNLOAD_ERROR', context?: any) {
+        super(message, code, { url, statusCode, ...context });
         this.url = url;
         this.statusCode = statusCode;
     }
@@ -215,6 +215,10 @@ export const ErrorCodes = {
     DOWNLOAD_CORRUPTED: 'DOWNLOAD_CORRUPTED',
     MIRROR_UNAVAILABLE: 'MIRROR_UNAVAILABLE',
     
+    // Cache errors
+    CACHE_MISS: 'CACHE_MISS',
+    OFFLINE_FILES_MISSING: 'OFFLINE_FILES_MISSING',
+    
     // File system errors
     PERMISSION_DENIED: 'PERMISSION_DENIED',
     DISK_FULL: 'DISK_FULL',
@@ -230,10 +234,19 @@ export const ErrorCodes = {
     INVALID_PATH: 'INVALID_PATH',
     MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
     INVALID_VERSION_FORMAT: 'INVALID_VERSION_FORMAT',
+    INVALID_JVM_PRESET: 'INVALID_JVM_PRESET',
+    
+    // Instance errors
+    INSTANCE_NOT_FOUND: 'INSTANCE_NOT_FOUND',
+    INSTANCE_ALREADY_EXISTS: 'INSTANCE_ALREADY_EXISTS',
+    SERVER_NOT_FOUND: 'SERVER_NOT_FOUND',
+    WORLD_NOT_FOUND: 'WORLD_NOT_FOUND',
+    BACKUP_NOT_FOUND: 'BACKUP_NOT_FOUND',
     
     // Version errors
     VERSION_NOT_FOUND: 'VERSION_NOT_FOUND',
     UNSUPPORTED_VERSION: 'UNSUPPORTED_VERSION',
+    QUICK_PLAY_UNSUPPORTED: 'QUICK_PLAY_UNSUPPORTED',
     
     // Java errors
     JAVA_NOT_FOUND: 'JAVA_NOT_FOUND',
@@ -247,7 +260,15 @@ export const ErrorCodes = {
     
     // Launch errors
     LAUNCH_FAILED: 'LAUNCH_FAILED',
+    LAUNCH_CANCELLED: 'LAUNCH_CANCELLED',
     PROCESS_CRASHED: 'PROCESS_CRASHED',
+    OUT_OF_MEMORY: 'OUT_OF_MEMORY',
+    NATIVES_MISSING: 'NATIVES_MISSING',
+    GRAPHICS_DRIVER_ERROR: 'GRAPHICS_DRIVER_ERROR',
+    MOD_CRASHED: 'MOD_CRASHED',
+    JVM_CRASHED: 'JVM_CRASHED',
+    WRAPPER_NOT_FOUND: 'WRAPPER_NOT_FOUND',
+    PROCESS_SPAWN_FAILED: 'PROCESS_SPAWN_FAILED',
     
     // Validation errors
     CHECKSUM_MISMATCH: 'CHECKSUM_MISMATCH',
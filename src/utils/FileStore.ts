@@ -0,0 +1,276 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getFileHash } from './Index.js';
+import { FileSystemError } from './Errors.js';
+
+/**
+ * How a stored file was placed in a root: a hard link to the stored copy, or
+ * a copy of it when both are not on the same file system.
+ */
+export type StorePlacement = 'link' | 'copy';
+
+export interface FileStoreStats {
+	objects: number;
+	size: number;                 // Bytes used by the stored files
+	references: number;           // Files in roots recorded as using a stored file
+}
+
+export interface FileStoreGcOptions {
+	gracePeriod?: number;         // Milliseconds; files stored or referenced more recently are kept. Default: 1 hour
+	dryRun?: boolean;             // Only count what would be removed
+}
+
+export interface FileStoreGcResult {
+	removed: number;              // Stored files that nothing uses any more
+	freed: number;                // Their size in bytes
+	kept: number;
+}
+
+const OBJECTS_DIRECTORY = 'objects';
+const REFS_DIRECTORY = 'refs';
+const DEFAULT_GRACE_PERIOD = 60 * 60 * 1000;
+
+/**
+ * Content-addressed store shared between several Minecraft roots. Files are kept
+ * once under `objects/<first 2 hash characters>/<sha1>` and hard-linked into each
+ * root, or copied when a hard link is not possible.
+ *
+ * Each stored file has a list of the root files using it under `refs/`, which
+ * gc() checks before removing anything.
+ */
+export default class FileStore {
+	public readonly root: string;
+
+	/**
+	 * @param root Directory of the store, e.g. one shared by every root of the launcher.
+	 */
+	constructor(root: string) {
+		this.root = path.resolve(root).replace(/\\/g, '/');
+	}
+
+	public getObjectPath(sha1: string): string {
+		const hash = sha1.toLowerCase();
+		return `${this.root}/${OBJECTS_DIRECTORY}/${hash.slice(0, 2)}/${hash}`;
+	}
+
+	/**
+	 * Tells whether the store has a file.
+	 *
+	 * @param size Expected size in bytes, checked if given
+	 */
+	public has(sha1: string, size?: number): boolean {
+		if (!sha1) return false;
+		try {
+			const stats = fs.statSync(this.getObjectPath(sha1));
+			return !size || stats.size === size;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Places the stored copy of a file at `target`, replacing what is there.
+	 *
+	 * @returns How the file was placed, or `null` if the store does not have it
+	 */
+	public async checkout(sha1: string, target: string): Promise<StorePlacement | null> {
+		if (!this.has(sha1)) return null;
+		const temp = `${target}.store`;
+		try {
+			fs.mkdirSync(path.dirname(target), { recursive: true });
+			fs.rmSync(temp, { force: true });
+			const placement = this.linkOrCopy(this.getObjectPath(sha1), temp);
+			fs.renameSync(temp, target);
+			this.addReference(sha1, target);
+			return placement;
+		} catch (err: any) {
+			fs.rmSync(temp, { force: true });
+			throw new FileSystemError(`Failed to place ${sha1} at ${target}: ${err.message}`, target, 'link');
+		}
+	}
+
+	/**
+	 * Adds a file of a root to the store. If the store already has it, the file is
+	 * replaced by a link to the stored copy, so the roots share the same data.
+	 *
+	 * @param sha1 The file's SHA-1, computed if not given
+	 */
+	public async add(filePath: string, sha1?: string): Promise<StorePlacement> {
+		const hash = (sha1 ?? await getFileHash(filePath)).toLowerCase();
+		const object = this.getObjectPath(hash);
+
+		try {
+			let placement: StorePlacement;
+			if (fs.existsSync(object)) {
+				placement = this.isSameFile(object, filePath) ? 'link' : this.replaceWithLink(object, filePath);
+			} else {
+				const temp = `${object}.${process.pid}.tmp`;
+				fs.mkdirSync(path.dirname(object), { recursive: true });
+				placement = this.linkOrCopy(filePath, temp);
+				fs.renameSync(temp, object);
+			}
+			this.addReference(hash, filePath);
+			return placement;
+		} catch (err: any) {
+			throw new FileSystemError(`Failed to add ${filePath} to the store: ${err.message}`, filePath, 'link');
+		}
+	}
+
+	/**
+	 * Returns the root files still using a stored file.
+	 */
+	public async getReferences(sha1: string): Promise<string[]> {
+		const object = this.getObjectPath(sha1);
+		if (!fs.existsSync(object)) return [];
+		const stats = fs.statSync(object);
+		return this.readReferences(sha1).filter(reference => this.isReference(reference, stats));
+	}
+
+	public async getStats(): Promise<FileStoreStats> {
+		const stats: FileStoreStats = { objects: 0, size: 0, references: 0 };
+		for (const object of this.listObjects()) {
+			stats.objects++;
+			stats.size += fs.statSync(object).size;
+			stats.references += this.readReferences(path.basename(object)).length;
+		}
+		return stats;
+	}
+
+	/**
+	 * Removes the stored files no root uses any more. A file is kept while a recorded
+	 * reference still exists with the same size, while it has other hard links (even
+	 * unrecorded ones), and during the grace period after it was stored or referenced,
+	 * so a launch running at the same time never loses a file it is about to link.
+	 */
+	public async gc(options: FileStoreGcOptions = {}): Promise<FileStoreGcResult> {
+		const gracePeriod = options.gracePeriod ?? DEFAULT_GRACE_PERIOD;
+		const now = Date.now();
+		const result: FileStoreGcResult = { removed: 0, freed: 0, kept: 0 };
+
+		for (const object of this.listObjects()) {
+			const sha1 = path.basename(object);
+			const refsFile = this.getRefsPath(sha1);
+			const stats = fs.statSync(object);
+			const references = this.readReferences(sha1);
+			const live = references.filter(reference => this.isReference(reference, stats));
+			const refsChanged = fs.existsSync(refsFile) ? fs.statSync(refsFile).mtimeMs : 0;
+			// File times have sub-millisecond precision, so they can be slightly ahead of Date.now()
+			const recent = gracePeriod > 0 && (now - stats.ctimeMs < gracePeriod || now - refsChanged < gracePeriod);
+
+			if (live.length > 0 || stats.nlink > 1 || recent) {
+				result.kept++;
+				if (!options.dryRun && !recent && live.length !== references.length) this.writeReferences(sha1, live);
+				continue;
+			}
+
+			if (!options.dryRun) {
+				try {
+					fs.rmSync(object);
+					fs.rmSync(refsFile, { force: true });
+				} catch (err: any) {
+					console.warn(`[FileStore] Failed to remove ${object}: ${err.message}`);
+					result.kept++;
+					continue;
+				}
+			}
+			result.removed++;
+			result.freed += stats.size;
+		}
+		return result;
+	}
+
+	private getRefsPath(sha1: string): string {
+		const hash = sha1.toLowerCase();
+		return `${this.root}/${REFS_DIRECTORY}/${hash.slice(0, 2)}/${hash}`;
+	}
+
+	private listObjects(): string[] {
+		const directory = `${this.root}/${OBJECTS_DIRECTORY}`;
+		if (!fs.existsSync(directory)) return [];
+		const objects: string[] = [];
+		for (const prefix of fs.readdirSync(directory)) {
+			for (const name of fs.readdirSync(`${directory}/${prefix}`)) {
+				if (!name.endsWith('.tmp')) objects.push(`${directory}/${prefix}/${name}`);
+			}
+		}
+		return objects;
+	}
+
+	/**
+	 * Hard-links `source` to `destination`, or copies it when the file system refuses
+	 * (another device, or no hard link support).
+	 */
+	private linkOrCopy(source: string, destination: string): StorePlacement {
+		try {
+			fs.linkSync(source, destination);
+			return 'link';
+		} catch {
+			fs.copyFileSync(source, destination);
+			return 'copy';
+		}
+	}
+
+	/**
+	 * Swaps a root file for a link to the identical stored copy. Left as it is if
+	 * they are on different file systems.
+	 */
+	private replaceWithLink(object: string, filePath: string): StorePlacement {
+		const temp = `${filePath}.store`;
+		try {
+			fs.linkSync(object, temp);
+		} catch {
+			return 'copy';
+		}
+		fs.renameSync(temp, filePath);
+		return 'link';
+	}
+
+	private isSameFile(a: string, b: string): boolean {
+		const first = fs.statSync(a);
+		const second = fs.statSync(b);
+		return first.ino === second.ino && first.dev === second.dev;
+	}
+
+	/**
+	 * A reference counts while its file exists and is the stored file or a copy of the same size.
+	 */
+	private isReference(reference: string, object: fs.Stats): boolean {
+		try {
+			const stats = fs.statSync(reference);
+			return (stats.ino === object.ino && stats.dev === object.dev) || stats.size === object.size;
+		} catch {
+			return false;
+		}
+	}
+
+	private readReferences(sha1: string): string[] {
+		try {
+			return fs.readFileSync(this.getRefsPath(sha1), 'utf-8').split('\n').filter(line => line.length > 0);
+		} catch {
+			return [];
+		}
+	}
+
+	private addReference(sha1: string, filePath: string): void {
+		const reference = path.resolve(filePath).replace(/\\/g, '/');
+		if (this.readReferences(sha1).includes(reference)) return;
+		const refsFile = this.getRefsPath(sha1);
+		fs.mkdirSync(path.dirname(refsFile), { recursive: true });
+		fs.appendFileSync(refsFile, `${reference}\n`);
+	}
+
+	private writeReferences(sha1: string, references: string[]): void {
+		const refsFile = this.getRefsPath(sha1);
+		if (references.length === 0) {
+			fs.rmSync(refsFile, { force: true });
+			return;
+		}
+		fs.writeFileSync(`${refsFile}.tmp`, references.map(reference => `${reference}\n`).join(''));
+		fs.renameSync(`${refsFile}.tmp`, refsFile);
+	}
+}
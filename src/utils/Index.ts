@@ -5,25 +5,50 @@
 
 import crypto from 'crypto';
 import fs from 'fs';
+import os from 'os';
 import { Readable } from 'node:stream';
 import Unzipper from './unzipper.js';
 
-// This interface defines the structure of a Minecraft library rule.
-interface LibraryRule {
+/**
+ * A single entry of a Mojang "rules" array, as found on libraries and on
+ * rule-gated `arguments.game` / `arguments.jvm` entries.
+ */
+interface Rule {
 	action: 'allow' | 'disallow';
 	os?: {
-		name?: string;
+		name?: string;     // "windows", "osx" or "linux"
+		arch?: string;     // e.g. "x86" for 32-bit systems
+		version?: string;  // Regular expression matched against the OS release
 	};
-	features?: any; // Adjust or remove if not used in your code
+	features?: Record<string, boolean>;
+}
+
+/**
+ * Launcher features that rules can depend on. Features that are not set count as `false`.
+ */
+interface RuleFeatures {
+	is_demo_user?: boolean;
+	has_custom_resolution?: boolean;
+	has_quick_plays_support?: boolean;
+	is_quick_play_singleplayer?: boolean;
+	is_quick_play_multiplayer?: boolean;
+	is_quick_play_realms?: boolean;
+	[feature: string]: boolean | undefined;
 }
 
+/**
+ * An entry of `arguments.game` or `arguments.jvm`: either a plain argument,
+ * or one or more arguments only used when their rules allow it.
+ */
+type ArgumentEntry = string | { rules?: Rule[]; value: string | string[] };
+
 /**
  * Represents a Library object, possibly containing rules or additional fields.
  * Adjust according to your actual library structure.
  */
 interface MinecraftLibrary {
 	name: string;
-	rules?: LibraryRule[];
+	rules?: Rule[];
 	downloads?: {
 		artifact?: {
 			url?: string;
@@ -205,51 +230,85 @@ async function getFileFromArchive(jar: string, file: string | null = null, prefi
 }
 
 /**
- * Determines if a library should be skipped based on its 'rules' property.
- * For example, it might skip libraries if action='disallow' for the current OS,
- * or if there are specific conditions not met.
- *
- * @param lib A library object (with optional 'rules' array)
- * @returns true if the library should be skipped, false otherwise
+ * Maps Node.js platform strings to Mojang's OS names.
  */
-function skipLibrary(lib: MinecraftLibrary): boolean {
-	// Map Node.js platform strings to Mojang's naming
-	const LibMap: Record<string, string> = {
-		win32: 'windows',
-		darwin: 'osx',
-		linux: 'linux'
-	};
-
-	// If no rules, it's not skipped
-	if (!lib.rules) {
-		return false;
-	}
+const RULE_OS_NAMES: Record<string, string> = {
+	win32: 'windows',
+	darwin: 'osx',
+	linux: 'linux'
+};
 
-	let shouldSkip = true;
+/**
+ * Maps Node.js architecture strings to the names Mojang's rules may use.
+ */
+const RULE_ARCH_NAMES: Record<string, string[]> = {
+	ia32: ['x86'],
+	x64: ['x86_64', 'x64', 'amd64'],
+	arm: ['arm', 'arm32'],
+	arm64: ['arm64', 'aarch64']
+};
 
-	for (const rule of lib.rules) {
-		// If features exist, your logic can handle them here
-		if (rule.features) {
-			// Implementation is up to your usage
+/**
+ * Evaluates a Mojang "rules" array for the current system.
+ * Like the official launcher, everything is disallowed until a matching rule
+ * allows it, and the last matching rule wins. A rule matches when every
+ * `os` condition and every `features` flag it lists matches.
+ *
+ * @param rules    The rules array (if missing or empty, the entry is allowed)
+ * @param features Enabled launcher features
+ * @returns true if the library or argument should be used
+ */
+function evaluateRules(rules: Rule[] | undefined, features: RuleFeatures = {}): boolean {
+	if (!rules || rules.length === 0) return true;
+
+	let allowed = false;
+	for (const rule of rules) {
+		if (rule.os) {
+			if (rule.os.name && rule.os.name !== RULE_OS_NAMES[process.platform]) continue;
+			if (rule.os.arch && !(RULE_ARCH_NAMES[process.arch] || [process.arch]).includes(rule.os.arch)) continue;
+			if (rule.os.version) {
+				try {
+					if (!new RegExp(rule.os.version).test(os.release())) continue;
+				} catch {
+					continue;
+				}
+			}
+		}
+		if (rule.features && Object.entries(rule.features).some(([name, value]) => (features[name] ?? false) !== value)) {
 			continue;
 		}
+		allowed = rule.action === 'allow';
+	}
+	return allowed;
+}
 
-		// "allow" means it can be used if OS matches (or no OS specified)
-		// "disallow" means skip if OS matches (or no OS specified)
-		if (
-			rule.action === 'allow' &&
-			((rule.os && rule.os.name === LibMap[process.platform]) || !rule.os)
-		) {
-			shouldSkip = false;
-		} else if (
-			rule.action === 'disallow' &&
-			((rule.os && rule.os.name === LibMap[process.platform]) || !rule.os)
-		) {
-			shouldSkip = true;
+/**
+ * Flattens `arguments.game` or `arguments.jvm` into plain arguments,
+ * keeping rule-gated entries only when their rules allow them.
+ *
+ * @param entries  The arguments array from a version JSON
+ * @param features Enabled launcher features
+ */
+function resolveArguments(entries: ArgumentEntry[], features: RuleFeatures = {}): string[] {
+	const args: string[] = [];
+	for (const entry of entries) {
+		if (typeof entry === 'string') {
+			args.push(entry);
+		} else if (entry && evaluateRules(entry.rules, features)) {
+			args.push(...[entry.value].flat());
 		}
 	}
+	return args;
+}
 
-	return shouldSkip;
+/**
+ * Determines if a library should be skipped based on its 'rules' property.
+ *
+ * @param lib A library object (with optional 'rules' array)
+ * @returns true if the library should be skipped, false otherwise
+ */
+function skipLibrary(lib: MinecraftLibrary): boolean {
+	return !evaluateRules(lib.rules);
 }
 
 function fromAnyReadable(webStream: ReadableStream<Uint8Array>): import('node:stream').Readable {
@@ -284,9 +343,13 @@ export {
 	mirrors,
 	getFileFromArchive,
 	skipLibrary,
+	evaluateRules,
+	resolveArguments,
 	fromAnyReadable
 };
 
+export type { Rule, RuleFeatures, ArgumentEntry };
+
 // Export memory management
 export * from './MemoryManager.js';
 
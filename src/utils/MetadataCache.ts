@@ -0,0 +1,175 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { ConnectionError, NetworkError, ErrorCodes, TimeoutError } from './Errors.js';
+
+/**
+ * Kinds of metadata kept in the cache. Each category is stored in its own
+ * folder under `<root>/cache/`.
+ */
+export type CacheCategory = 'manifest' | 'versions' | 'assets' | 'java' | 'loaders' | 'others';
+
+// Error codes of Node.js and undici meaning the server could not be reached at all
+const CONNECTION_ERROR_CODES = [
+	'ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH',
+	'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_SOCKET'
+];
+
+/**
+ * Describes a single piece of cached metadata that was used instead of the network.
+ */
+export interface CacheUsage {
+	category: CacheCategory;
+	key: string;
+	file: string;                        // Absolute path of the cached JSON file
+	reason: 'offline' | 'unreachable' | 'failed'; // Forced offline mode, network failure, or an error from the server
+	cachedAt: string;                    // ISO date of the last successful refresh
+}
+
+/**
+ * Persistent JSON cache for everything the launcher fetches before downloading
+ * files: the version manifest, version JSONs, asset indexes, Java runtime
+ * manifests and loader profiles.
+ *
+ * Every successful fetch refreshes the cached copy. When the network cannot be
+ * reached (or offline mode is forced), the cached copy is returned instead and
+ * a "cache" event is emitted describing what was used. Any other fetch failure,
+ * such as an HTTP error status, falls back to the cached copy of that entry only.
+ */
+export default class MetadataCache extends EventEmitter {
+	private readonly directory: string;
+	private readonly forceOffline: boolean;
+	private networkUnreachable = false;
+	private readonly usage: CacheUsage[] = [];
+
+	constructor(root: string, offline: boolean = false) {
+		super();
+		this.directory = path.resolve(root, 'cache').replace(/\\/g, '/');
+		this.forceOffline = offline;
+	}
+
+	/**
+	 * `true` when offline mode was requested or a fetch has already failed to
+	 * connect and been served from the cache.
+	 */
+	public get offline(): boolean {
+		return this.forceOffline || this.networkUnreachable;
+	}
+
+	/**
+	 * Every cached entry that was served instead of fresh data, in order of use.
+	 */
+	public get used(): CacheUsage[] {
+		return [...this.usage];
+	}
+
+	/**
+	 * Builds the on-disk path for a cache entry.
+	 */
+	public getPath(category: CacheCategory, key: string): string {
+		const safeKey = key.replace(/[^\w.-]/g, '_');
+		return `${this.directory}/${category}/${safeKey}.json`;
+	}
+
+	/**
+	 * Reads a cache entry, returning `undefined` if it is missing or unreadable.
+	 */
+	public read<T = any>(category: CacheCategory, key: string): T | undefined {
+		const file = this.getPath(category, key);
+		if (!fs.existsSync(file)) return undefined;
+		try {
+			return JSON.parse(fs.readFileSync(file, 'utf-8'));
+		} catch (err: any) {
+			console.warn(`[MetadataCache] Ignoring unreadable cache entry ${file}: ${err.message}`);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Writes a cache entry. The file is written next to its target and renamed,
+	 * so a crash mid-write never leaves a truncated entry behind.
+	 */
+	public write(category: CacheCategory, key: string, data: any): void {
+		const file = this.getPath(category, key);
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(`${file}.tmp`, JSON.stringify(data));
+			fs.renameSync(`${file}.tmp`, file);
+		} catch (err: any) {
+			console.warn(`[MetadataCache] Failed to write cache entry ${file}: ${err.message}`);
+		}
+	}
+
+	/**
+	 * Returns fresh data from `fetcher` and refreshes the cache, or falls back to
+	 * the cached copy when offline or when `fetcher` fails.
+	 *
+	 * @param category The kind of metadata being requested
+	 * @param key      A stable identifier for the entry (e.g. a version id)
+	 * @param fetcher  Fetches the data from the network; should throw on failure
+	 * @throws The original fetch error, or a `NetworkError` with `CACHE_MISS`
+	 *         if offline mode is forced and nothing is cached.
+	 */
+	public async resolve<T = any>(category: CacheCategory, key: string, fetcher: () => Promise<T>): Promise<T> {
+		if (this.offline) {
+			const cached = this.read<T>(category, key);
+			if (cached !== undefined) return this.use(category, key, cached, this.forceOffline ? 'offline' : 'unreachable');
+			if (this.forceOffline) {
+				throw new NetworkError(
+					`Offline mode: no cached ${category} metadata for "${key}"`,
+					ErrorCodes.CACHE_MISS,
+					{ category, key }
+				);
+			}
+		}
+
+		try {
+			const data = await fetcher();
+			this.write(category, key, data);
+			return data;
+		} catch (err) {
+			const cached = this.read<T>(category, key);
+			if (cached === undefined) throw err;
+			if (!this.isConnectionError(err)) return this.use(category, key, cached, 'failed');
+			this.networkUnreachable = true;
+			return this.use(category, key, cached, 'unreachable');
+		}
+	}
+
+	/**
+	 * Tells whether a fetch failed because the server could not be reached (DNS,
+	 * refused connection, timeout), as opposed to answering with an error.
+	 */
+	private isConnectionError(err: any): boolean {
+		for (let error = err; error; error = error.cause) {
+			if (error instanceof ConnectionError || error instanceof TimeoutError) return true;
+			if (error.name === 'TimeoutError') return true;
+			if (CONNECTION_ERROR_CODES.includes(error.code)) return true;
+			// undici reports each address it tried when all of them fail
+			if (Array.isArray(error.errors) && error.errors.some((inner: any) => this.isConnectionError(inner))) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Records and announces that a cached entry is being used.
+	 */
+	private use<T>(category: CacheCategory, key: string, data: T, reason: CacheUsage['reason']): T {
+		const file = this.getPath(category, key);
+		const entry: CacheUsage = {
+			category,
+			key,
+			file,
+			reason,
+			cachedAt: fs.statSync(file).mtime.toISOString()
+		};
+		this.usage.push(entry);
+		this.emit('cache', entry);
+		return data;
+	}
+}
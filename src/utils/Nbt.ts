@@ -0,0 +1,375 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { FileSystemError, ValidationError, ErrorCodes } from './Errors.js';
+
+/**
+ * NBT tag types, named as in the Minecraft wiki. The numeric id is the index in NBT_TYPES.
+ */
+export type NbtType =
+	| 'end' | 'byte' | 'short' | 'int' | 'long' | 'float' | 'double'
+	| 'byteArray' | 'string' | 'list' | 'compound' | 'intArray' | 'longArray';
+
+const NBT_TYPES: NbtType[] = [
+	'end', 'byte', 'short', 'int', 'long', 'float', 'double',
+	'byteArray', 'string', 'list', 'compound', 'intArray', 'longArray'
+];
+
+/**
+ * A named set of tags (`TAG_Compound`).
+ */
+export interface NbtCompound {
+	[name: string]: NbtTag;
+}
+
+/**
+ * A list of unnamed values of one type (`TAG_List`). `type` is `'end'` for empty lists.
+ */
+export interface NbtList<T extends NbtType = NbtType> {
+	type: T;
+	value: Array<NbtValue<T>>;
+}
+
+/**
+ * The JavaScript value stored for each tag type. Longs are `bigint`s so that no precision is lost.
+ */
+export type NbtValue<T extends NbtType> =
+	T extends 'byte' | 'short' | 'int' | 'float' | 'double' ? number :
+	T extends 'long' ? bigint :
+	T extends 'byteArray' ? Int8Array :
+	T extends 'string' ? string :
+	T extends 'list' ? NbtList :
+	T extends 'compound' ? NbtCompound :
+	T extends 'intArray' ? Int32Array :
+	T extends 'longArray' ? BigInt64Array :
+	never;
+
+/**
+ * A tag and its type. The type is kept so that a file read and written back is unchanged.
+ */
+export type NbtTag = { [T in Exclude<NbtType, 'end'>]: { type: T, value: NbtValue<T> } }[Exclude<NbtType, 'end'>];
+
+/**
+ * Compression of an NBT file: `level.dat` is gzipped, region chunks use zlib, `servers.dat` is not compressed.
+ */
+export type NbtCompression = 'gzip' | 'zlib' | 'none';
+
+/**
+ * A decoded NBT file.
+ */
+export interface NbtFile {
+	name: string;                 // Name of the root compound, usually ""
+	value: NbtCompound;
+	compression: NbtCompression;
+}
+
+/**
+ * Helpers to build tags: `nbt.int(5)`, `nbt.string('hi')`, `nbt.list('string', ['a'])`.
+ */
+export const nbt = {
+	byte: (value: number | boolean) => ({ type: 'byte', value: Number(value) } as const),
+	short: (value: number) => ({ type: 'short', value } as const),
+	int: (value: number) => ({ type: 'int', value } as const),
+	long: (value: bigint | number) => ({ type: 'long', value: BigInt(value) } as const),
+	float: (value: number) => ({ type: 'float', value } as const),
+	double: (value: number) => ({ type: 'double', value } as const),
+	byteArray: (value: ArrayLike<number>) => ({ type: 'byteArray', value: Int8Array.from(value) } as const),
+	string: (value: string) => ({ type: 'string', value } as const),
+	list: <T extends NbtType>(type: T, value: Array<NbtValue<T>>) => ({ type: 'list', value: { type: value.length ? type : 'end', value } } as const),
+	compound: (value: NbtCompound) => ({ type: 'compound', value } as const),
+	intArray: (value: ArrayLike<number>) => ({ type: 'intArray', value: Int32Array.from(value) } as const),
+	longArray: (value: ArrayLike<bigint>) => ({ type: 'longArray', value: BigInt64Array.from(value) } as const)
+};
+
+/**
+ * Decodes an NBT buffer, detecting gzip and zlib compression.
+ *
+ * @throws ValidationError if the data is not valid NBT
+ */
+export function parseNbt(buffer: Buffer): NbtFile {
+	let compression: NbtCompression = 'none';
+	let data = buffer;
+	try {
+		if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+			compression = 'gzip';
+			data = zlib.gunzipSync(buffer);
+		} else if (buffer[0] === 0x78 && (buffer[0] * 256 + buffer[1]) % 31 === 0) {
+			compression = 'zlib';
+			data = zlib.inflateSync(buffer);
+		}
+
+		const reader = new NbtReader(data);
+		const type = NBT_TYPES[reader.byte()];
+		if (type !== 'compound') throw new Error(`Root tag is ${type ?? 'unknown'}, expected compound`);
+		const name = reader.string();
+		return { name, value: reader.compound(), compression };
+	} catch (err: any) {
+		throw new ValidationError(`Invalid NBT data: ${err.message}`, 'NBT compound', undefined, undefined, ErrorCodes.FILE_CORRUPTED);
+	}
+}
+
+/**
+ * Encodes a root compound as NBT.
+ */
+export function serializeNbt(value: NbtCompound, name: string = '', compression: NbtCompression = 'none'): Buffer {
+	const writer = new NbtWriter();
+	writer.byte(NBT_TYPES.indexOf('compound'));
+	writer.string(name);
+	writer.compound(value);
+	const data = writer.toBuffer();
+	if (compression === 'gzip') return zlib.gzipSync(data);
+	if (compression === 'zlib') return zlib.deflateSync(data);
+	return data;
+}
+
+/**
+ * Reads an NBT file.
+ */
+export async function readNbtFile(file: string): Promise<NbtFile> {
+	let buffer: Buffer;
+	try {
+		buffer = await fs.promises.readFile(file);
+	} catch (err: any) {
+		throw new FileSystemError(`Failed to read ${file}: ${err.message}`, file, 'read', false, err.code === 'ENOENT' ? ErrorCodes.FILE_NOT_FOUND : undefined);
+	}
+	try {
+		return parseNbt(buffer);
+	} catch (err: any) {
+		throw new ValidationError(`${err.message} in ${file}`, 'NBT compound', undefined, file, ErrorCodes.FILE_CORRUPTED);
+	}
+}
+
+/**
+ * Writes an NBT file through a temporary file, so a crash never leaves it half-written.
+ */
+export async function writeNbtFile(file: string, value: NbtCompound, compression: NbtCompression = 'none', name: string = ''): Promise<void> {
+	try {
+		await fs.promises.mkdir(path.dirname(file), { recursive: true });
+		await fs.promises.writeFile(`${file}.tmp`, serializeNbt(value, name, compression));
+		await fs.promises.rename(`${file}.tmp`, file);
+	} catch (err: any) {
+		throw new FileSystemError(`Failed to write ${file}: ${err.message}`, file, 'write');
+	}
+}
+
+/**
+ * Converts tags to plain JavaScript values (compounds to objects, lists and arrays to arrays),
+ * for reading. Type information is lost, so use the tags themselves to write files back.
+ */
+export function simplifyNbt(tag: NbtTag | NbtCompound): any {
+	if (!('type' in tag) || typeof tag.type !== 'string') {
+		return Object.fromEntries(Object.entries(tag as NbtCompound).map(([key, value]) => [key, simplifyNbt(value)]));
+	}
+	const { type, value } = tag as NbtTag;
+	switch (type) {
+		case 'compound': return simplifyNbt(value);
+		case 'list': return value.value.map((item: any) => simplifyNbt({ type: value.type, value: item } as NbtTag));
+		case 'byteArray': case 'intArray': case 'longArray': return Array.from(value as ArrayLike<number | bigint>);
+		default: return value;
+	}
+}
+
+/**
+ * Big-endian NBT decoder.
+ */
+class NbtReader {
+	private offset = 0;
+
+	constructor(private readonly buffer: Buffer) { }
+
+	public byte(): number {
+		return this.buffer.readInt8(this.advance(1));
+	}
+
+	public string(): string {
+		const length = this.buffer.readUInt16BE(this.advance(2));
+		return decodeModifiedUtf8(this.buffer.subarray(this.advance(length), this.offset));
+	}
+
+	public compound(): NbtCompound {
+		const compound: NbtCompound = {};
+		for (;;) {
+			const type = this.type();
+			if (type === 'end') return compound;
+			const name = this.string();
+			compound[name] = { type, value: this.payload(type) } as NbtTag;
+		}
+	}
+
+	private type(): NbtType {
+		const id = this.buffer.readUInt8(this.advance(1));
+		const type = NBT_TYPES[id];
+		if (!type) throw new Error(`Unknown tag type ${id} at offset ${this.offset - 1}`);
+		return type;
+	}
+
+	private payload(type: NbtType): any {
+		switch (type) {
+			case 'byte': return this.byte();
+			case 'short': return this.buffer.readInt16BE(this.advance(2));
+			case 'int': return this.buffer.readInt32BE(this.advance(4));
+			case 'long': return this.buffer.readBigInt64BE(this.advance(8));
+			case 'float': return this.buffer.readFloatBE(this.advance(4));
+			case 'double': return this.buffer.readDoubleBE(this.advance(8));
+			case 'string': return this.string();
+			case 'compound': return this.compound();
+			case 'byteArray': {
+				const length = this.length();
+				return Int8Array.from(this.buffer.subarray(this.advance(length), this.offset), byte => (byte << 24) >> 24);
+			}
+			case 'intArray': {
+				const array = new Int32Array(this.length());
+				for (let i = 0; i < array.length; i++) array[i] = this.buffer.readInt32BE(this.advance(4));
+				return array;
+			}
+			case 'longArray': {
+				const array = new BigInt64Array(this.length());
+				for (let i = 0; i < array.length; i++) array[i] = this.buffer.readBigInt64BE(this.advance(8));
+				return array;
+			}
+			case 'list': {
+				const itemType = this.type();
+				const length = this.length();
+				const value: any[] = [];
+				for (let i = 0; i < length; i++) value.push(this.payload(itemType));
+				return { type: length > 0 ? itemType : 'end', value };
+			}
+			default: throw new Error(`Unexpected ${type} tag at offset ${this.offset}`);
+		}
+	}
+
+	private length(): number {
+		const length = this.buffer.readInt32BE(this.advance(4));
+		if (length < 0) throw new Error(`Negative length at offset ${this.offset - 4}`);
+		return length;
+	}
+
+	/**
+	 * Moves past `bytes` bytes and returns where they start.
+	 */
+	private advance(bytes: number): number {
+		const start = this.offset;
+		if (start + bytes > this.buffer.length) throw new Error(`Unexpected end of data at offset ${start}`);
+		this.offset += bytes;
+		return start;
+	}
+}
+
+/**
+ * Big-endian NBT encoder.
+ */
+class NbtWriter {
+	private chunks: Buffer[] = [];
+
+	public byte(value: number): void {
+		const buffer = Buffer.alloc(1);
+		buffer.writeInt8(value);
+		this.chunks.push(buffer);
+	}
+
+	public string(value: string): void {
+		const data = encodeModifiedUtf8(value);
+		if (data.length > 0xffff) throw new Error(`String too long for NBT (${data.length} bytes)`);
+		const length = Buffer.alloc(2);
+		length.writeUInt16BE(data.length);
+		this.chunks.push(length, data);
+	}
+
+	public compound(compound: NbtCompound): void {
+		for (const [name, tag] of Object.entries(compound)) {
+			if (tag === undefined) continue;
+			this.byte(NBT_TYPES.indexOf(tag.type));
+			this.string(name);
+			this.payload(tag.type, tag.value);
+		}
+		this.byte(0);
+	}
+
+	public toBuffer(): Buffer {
+		return Buffer.concat(this.chunks);
+	}
+
+	private payload(type: NbtType, value: any): void {
+		switch (type) {
+			case 'byte': return this.byte(value);
+			case 'short': return this.number(2, buffer => buffer.writeInt16BE(value));
+			case 'int': return this.number(4, buffer => buffer.writeInt32BE(value));
+			case 'long': return this.number(8, buffer => buffer.writeBigInt64BE(BigInt.asIntN(64, BigInt(value))));
+			case 'float': return this.number(4, buffer => buffer.writeFloatBE(value));
+			case 'double': return this.number(8, buffer => buffer.writeDoubleBE(value));
+			case 'string': return this.string(value);
+			case 'compound': return this.compound(value);
+			case 'byteArray':
+				this.length(value.length);
+				this.chunks.push(Buffer.from(Int8Array.from(value).buffer));
+				return;
+			case 'intArray':
+				this.length(value.length);
+				for (const item of value) this.number(4, buffer => buffer.writeInt32BE(item));
+				return;
+			case 'longArray':
+				this.length(value.length);
+				for (const item of value) this.number(8, buffer => buffer.writeBigInt64BE(BigInt(item)));
+				return;
+			case 'list': {
+				const list = value as NbtList;
+				this.byte(NBT_TYPES.indexOf(list.value.length > 0 ? list.type : 'end'));
+				this.length(list.value.length);
+				for (const item of list.value) this.payload(list.type, item);
+				return;
+			}
+			default: throw new Error(`Cannot write ${type} tag`);
+		}
+	}
+
+	private length(length: number): void {
+		this.number(4, buffer => buffer.writeInt32BE(length));
+	}
+
+	private number(size: number, write: (buffer: Buffer) => void): void {
+		const buffer = Buffer.alloc(size);
+		write(buffer);
+		this.chunks.push(buffer);
+	}
+}
+
+/**
+ * Encodes a string in Java's modified UTF-8: U+0000 takes two bytes, and characters
+ * outside the BMP are written as two 3-byte surrogates instead of one 4-byte sequence.
+ */
+function encodeModifiedUtf8(text: string): Buffer {
+	const bytes: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		const code = text.charCodeAt(i);
+		if (code >= 0x01 && code <= 0x7f) {
+			bytes.push(code);
+		} else if (code <= 0x7ff) {
+			bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+		} else {
+			bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+		}
+	}
+	return Buffer.from(bytes);
+}
+
+function decodeModifiedUtf8(bytes: Buffer): string {
+	let text = '';
+	for (let i = 0; i < bytes.length;) {
+		const byte = bytes[i++];
+		if (byte < 0x80) {
+			text += String.fromCharCode(byte);
+		} else if ((byte & 0xe0) === 0xc0) {
+			text += String.fromCharCode(((byte & 0x1f) << 6) | (bytes[i++] & 0x3f));
+		} else if ((byte & 0xf0) === 0xe0) {
+			text += String.fromCharCode(((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f));
+		} else {
+			throw new Error(`Invalid modified UTF-8 byte 0x${byte.toString(16)}`);
+		}
+	}
+	return text;
+}
@@ -0,0 +1,46 @@
+/**
+ * @author Luuxis
+ * Luuxis License v1.0 (voir fichier LICENSE pour les détails en FR/EN)
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * Arguments of an event in an event map, e.g. `[downloaded: number, total: number]`.
+ */
+type EventArgs<Events, E extends keyof Events> = Extract<Events[E], unknown[]>;
+
+/**
+ * An EventEmitter whose `on()`, `once()`, `off()` and `emit()` only accept the
+ * events of `Events`, each with its own argument list.
+ *
+ * Event maps are interfaces from event name to argument tuple:
+ *
+ *     interface DownloaderEvents {
+ *         progress: [downloaded: number, total: number, type?: string];
+ *     }
+ */
+export interface TypedEventEmitter<Events> extends Omit<EventEmitter,
+	'on' | 'once' | 'off' | 'addListener' | 'removeListener' | 'prependListener' | 'prependOnceListener' | 'emit' | 'listeners' | 'listenerCount'> {
+	on<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	once<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	off<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	addListener<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	removeListener<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	prependListener<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	prependOnceListener<E extends keyof Events & string>(event: E, listener: (...args: EventArgs<Events, E>) => void): this;
+	emit<E extends keyof Events & string>(event: E, ...args: EventArgs<Events, E>): boolean;
+	listeners<E extends keyof Events & string>(event: E): Array<(...args: EventArgs<Events, E>) => void>;
+	listenerCount<E extends keyof Events & string>(event: E): number;
+}
+
+/**
+ * EventEmitter typed with an event map. Use it as a base class:
+ *
+ *     export default class Downloader extends TypedEmitter<DownloaderEvents> { ... }
+ *
+ * At runtime this is Node's EventEmitter; only the types differ.
+ */
+const TypedEmitter = EventEmitter as unknown as { new <Events>(): TypedEventEmitter<Events> };
+
+export default TypedEmitter;
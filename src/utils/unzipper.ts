@@ -4,6 +4,7 @@ import zlib from 'zlib';
 interface ZipEntry {
     entryName: string;
     isDirectory: boolean;
+    crc32: number;
     getData: () => Buffer;
 }
 
@@ -43,6 +44,7 @@ export default class Unzipper {
                 if (fileBuffer.readUInt32LE(cdCursor) !== 0x02014b50) break;
 
                 const compressionMethod = fileBuffer.readUInt16LE(cdCursor + 10);
+                const crc32 = fileBuffer.readUInt32LE(cdCursor + 16);
                 const compressedSize = fileBuffer.readUInt32LE(cdCursor + 20);
                 const uncompressedSize = fileBuffer.readUInt32LE(cdCursor + 24);
                 const fileNameLength = fileBuffer.readUInt16LE(cdCursor + 28);
@@ -83,6 +85,7 @@ export default class Unzipper {
                 this.entries.push({
                     entryName: fileName,
                     isDirectory: fileName.endsWith('/'),
+                    crc32: crc32,
                     getData: () => {
                         if (compressionMethod === 8) {
                             return zlib.inflateRawSync(compressedData);
@@ -109,6 +112,7 @@ export default class Unzipper {
                 if (headerOffset + 30 > fileBuffer.length) break;
 
                 const compressionMethod = fileBuffer.readUInt16LE(headerOffset + 8);
+                const crc32 = fileBuffer.readUInt32LE(headerOffset + 14);
                 const compressedSize = fileBuffer.readUInt32LE(headerOffset + 18);
                 const uncompressedSize = fileBuffer.readUInt32LE(headerOffset + 22);
                 const fileNameLength = fileBuffer.readUInt16LE(headerOffset + 26);
@@ -137,6 +141,7 @@ export default class Unzipper {
                 this.entries.push({
                     entryName: fileName,
                     isDirectory: fileName.endsWith('/'),
+                    crc32: crc32,
                     getData: () => {
                         if (compressionMethod === 8) {
                             return zlib.inflateRawSync(compressedData);
@@ -156,4 +161,69 @@ export default class Unzipper {
     getEntries(): ZipEntry[] {
         return this.entries;
     }
+
+    /**
+     * Reads only the named entries, using the central directory to find them, so the
+     * rest of the archive is never loaded. Entries the archive does not have are left out.
+     */
+    static readFiles(zipFilePath: string, names: string[]): Map<string, Buffer> {
+        const files = new Map<string, Buffer>();
+        const fd = fs.openSync(zipFilePath, 'r');
+        try {
+            const read = (position: number, length: number): Buffer => {
+                const buffer = Buffer.alloc(length);
+                return buffer.subarray(0, fs.readSync(fd, buffer, 0, length, position));
+            };
+
+            // The end of central directory record is followed by at most a 64 KB comment
+            const size = fs.fstatSync(fd).size;
+            const tailStart = Math.max(0, size - (0xFFFF + 22));
+            const tail = read(tailStart, size - tailStart);
+            let eocdPos = -1;
+            for (let i = tail.length - 22; i >= 0; i--) {
+                if (tail.readUInt32LE(i) === 0x06054b50) {
+                    eocdPos = i;
+                    break;
+                }
+            }
+            if (eocdPos === -1) {
+                // Damaged archive: let the constructor look for the entries' local headers
+                for (const entry of new Unzipper(zipFilePath).getEntries()) {
+                    if (names.includes(entry.entryName) && !files.has(entry.entryName)) files.set(entry.entryName, entry.getData());
+                }
+                return files;
+            }
+
+            const centralDirectory = read(tail.readUInt32LE(eocdPos + 16), tail.readUInt32LE(eocdPos + 12));
+            let cdCursor = 0;
+            while (cdCursor + 46 <= centralDirectory.length && centralDirectory.readUInt32LE(cdCursor) === 0x02014b50) {
+                const compressionMethod = centralDirectory.readUInt16LE(cdCursor + 10);
+                const compressedSize = centralDirectory.readUInt32LE(cdCursor + 20);
+                const fileNameLength = centralDirectory.readUInt16LE(cdCursor + 28);
+                const extraFieldLength = centralDirectory.readUInt16LE(cdCursor + 30);
+                const fileCommentLength = centralDirectory.readUInt16LE(cdCursor + 32);
+                const headerOffset = centralDirectory.readUInt32LE(cdCursor + 42);
+                const fileName = centralDirectory.toString('utf-8', cdCursor + 46, cdCursor + 46 + fileNameLength);
+                cdCursor += 46 + fileNameLength + extraFieldLength + fileCommentLength;
+                if (!names.includes(fileName) || files.has(fileName)) continue;
+
+                const header = read(headerOffset, 30);
+                if (header.length < 30 || header.readUInt32LE(0) !== 0x04034b50) continue;
+                const dataStart = headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+                const compressedData = read(dataStart, compressedSize);
+                if (compressedData.length < compressedSize) continue;
+
+                if (compressionMethod === 8) {
+                    files.set(fileName, zlib.inflateRawSync(compressedData));
+                } else if (compressionMethod === 0) {
+                    files.set(fileName, compressedData);
+                } else {
+                    throw new Error(`Unsupported compression method: ${compressionMethod}`);
+                }
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+        return files;
+    }
 }
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import zlib from 'zlib';
+
+const MAX_UINT32 = 0xFFFFFFFF;
+const MAX_ENTRIES = 0xFFFF;
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Writes a ZIP archive entry by entry, without keeping the archive in memory.
+ * Entries are deflated unless that makes them larger. ZIP64 is not supported,
+ * like in Unzipper, so archives are limited to 4 GB and 65535 entries.
+ */
+export default class Zipper {
+    private fd: number;
+    private offset = 0;
+    private centralDirectory: Buffer[] = [];
+
+    constructor(zipFilePath: string) {
+        this.fd = fs.openSync(zipFilePath, 'w');
+    }
+
+    get entryCount(): number {
+        return this.centralDirectory.length;
+    }
+
+    addFile(entryName: string, data: Buffer, modified: Date = new Date()): void {
+        const compressed = zlib.deflateRawSync(data);
+        const deflated = compressed.length < data.length;
+        this.addEntry(entryName, deflated ? compressed : data, deflated ? 8 : 0, zlib.crc32(data), data.length, modified, false);
+    }
+
+    addDirectory(entryName: string, modified: Date = new Date()): void {
+        const name = entryName.endsWith('/') ? entryName : `${entryName}/`;
+        this.addEntry(name, Buffer.alloc(0), 0, 0, 0, modified, true);
+    }
+
+    /**
+     * Writes the central directory and closes the file.
+     */
+    close(): void {
+        const centralDirectory = Buffer.concat(this.centralDirectory);
+        if (this.offset + centralDirectory.length > MAX_UINT32) {
+            this.abort();
+            throw new Error('Archive is larger than 4 GB, which needs ZIP64');
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(this.centralDirectory.length, 8);
+        end.writeUInt16LE(this.centralDirectory.length, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(this.offset, 16);
+
+        fs.writeSync(this.fd, centralDirectory);
+        fs.writeSync(this.fd, end);
+        fs.closeSync(this.fd);
+    }
+
+    /**
+     * Closes the file without finishing the archive. The caller removes it.
+     */
+    abort(): void {
+        try {
+            fs.closeSync(this.fd);
+        } catch { }
+    }
+
+    private addEntry(entryName: string, body: Buffer, method: number, crc32: number, size: number, modified: Date, isDirectory: boolean): void {
+        if (this.centralDirectory.length >= MAX_ENTRIES) {
+            throw new Error('Archive has more than 65535 entries, which needs ZIP64');
+        }
+        if (this.offset + body.length > MAX_UINT32) {
+            throw new Error('Archive is larger than 4 GB, which needs ZIP64');
+        }
+
+        const name = Buffer.from(entryName, 'utf-8');
+        const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+        const date = (Math.max(modified.getFullYear() - 1980, 0) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_FLAG, 6);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(crc32, 14);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(size, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(UTF8_FLAG, 8);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(crc32, 16);
+        central.writeUInt32LE(body.length, 20);
+        central.writeUInt32LE(size, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(isDirectory ? 0x10 : 0, 38);
+        central.writeUInt32LE(this.offset, 42);
+        this.centralDirectory.push(Buffer.concat([central, name]));
+
+        fs.writeSync(this.fd, local);
+        fs.writeSync(this.fd, name);
+        if (body.length > 0) fs.writeSync(this.fd, body);
+        this.offset += local.length + name.length + body.length;
+    }
+}
@@ -0,0 +1,282 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import Downloader, { DownloadOptions } from '../src/utils/Downloader.js';
+import { DownloadError, ErrorCodes } from '../src/utils/Errors.js';
+
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+const SHA1 = crypto.createHash('sha1').update(CONTENT).digest('hex');
+const ETAG = '"v1"';
+
+type Handler = (request: http.IncomingMessage, response: http.ServerResponse, index: number) => void;
+
+/**
+ * Serves every request with `handler`, and records the headers of each request.
+ */
+async function serve(handler: Handler): Promise<{ url: string; requests: http.IncomingHttpHeaders[]; close: () => Promise<void> }> {
+	const requests: http.IncomingHttpHeaders[] = [];
+	const server = http.createServer((request, response) => {
+		requests.push(request.headers);
+		handler(request, response, requests.length - 1);
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}/file.jar`,
+		requests,
+		close: () => {
+			server.closeAllConnections();
+			return new Promise<void>(resolve => server.close(() => resolve()));
+		}
+	};
+}
+
+/**
+ * Answers like a CDN: the whole file, or the requested range when `If-Range` still matches.
+ */
+function rangeServer(content: Buffer = CONTENT): Handler {
+	return (request, response) => {
+		const range = request.headers.range?.match(/^bytes=(\d+)-$/);
+		const ifRange = request.headers['if-range'];
+		if (range && (!ifRange || ifRange === ETAG)) {
+			const start = parseInt(range[1], 10);
+			if (start >= content.length) {
+				response.writeHead(416, { 'Content-Range': `bytes */${content.length}` });
+				response.end();
+				return;
+			}
+			response.writeHead(206, {
+				ETag: ETAG,
+				'Content-Length': content.length - start,
+				'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}`
+			});
+			response.end(content.subarray(start));
+			return;
+		}
+		response.writeHead(200, { ETag: ETAG, 'Content-Length': content.length });
+		response.end(content);
+	};
+}
+
+function withRoot(run: (root: string) => Promise<void>): () => Promise<void> {
+	return async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'downloader-'));
+		try {
+			await run(root);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	};
+}
+
+function fileAt(root: string, url: string): DownloadOptions {
+	return { url, path: `${root}/libraries/file.jar`, folder: `${root}/libraries`, sha1: SHA1, size: CONTENT.length, type: 'Libraries' };
+}
+
+/**
+ * Leaves a `.part` file as an interrupted download of `url` would.
+ */
+function writePartial(file: DownloadOptions, data: Buffer, etag: string = ETAG): void {
+	fs.mkdirSync(file.folder, { recursive: true });
+	fs.writeFileSync(`${file.path}.part`, data);
+	fs.writeFileSync(`${file.path}.part.json`, JSON.stringify({ url: file.url, etag, lastModified: null }));
+}
+
+function assertDownloaded(file: DownloadOptions): void {
+	assert.deepEqual(fs.readFileSync(file.path), CONTENT);
+	assert.ok(!fs.existsSync(`${file.path}.part`));
+	assert.ok(!fs.existsSync(`${file.path}.part.json`));
+}
+
+describe('Downloader checksums', () => {
+	it('downloads a file again when its SHA-1 does not match', withRoot(async (root) => {
+		const server = await serve((request, response, index) => {
+			const body = index === 0 ? Buffer.from('corrupted by a proxy') : CONTENT;
+			response.writeHead(200, { 'Content-Length': body.length });
+			response.end(body);
+		});
+		try {
+			const file = fileAt(root, server.url);
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+			assert.equal(server.requests.length, 2);
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('gives up with CHECKSUM_MISMATCH after the last attempt', withRoot(async (root) => {
+		const bad = Buffer.from('always wrong');
+		const server = await serve((request, response) => {
+			response.writeHead(200, { 'Content-Length': bad.length });
+			response.end(bad);
+		});
+		try {
+			const file = fileAt(root, server.url);
+			const downloader = new Downloader();
+			const emitted: Error[] = [];
+			downloader.on('error', error => emitted.push(error));
+
+			await assert.rejects(downloader.downloadFileMultiple([file], CONTENT.length, 1, 5000), (err: any) => {
+				assert.ok(err instanceof DownloadError);
+				assert.equal(err.code, ErrorCodes.CHECKSUM_MISMATCH);
+				assert.equal(err.context.expected, SHA1);
+				assert.equal(err.context.actual, crypto.createHash('sha1').update(bad).digest('hex'));
+				assert.equal(err.context.attempts, 3);
+				return true;
+			});
+			assert.equal(server.requests.length, 3);
+			assert.deepEqual(emitted.map((error: any) => error.code), [ErrorCodes.CHECKSUM_MISMATCH]);
+			// Nothing of the bad copies is left behind
+			assert.ok(!fs.existsSync(file.path));
+			assert.ok(!fs.existsSync(`${file.path}.part`));
+			assert.ok(!fs.existsSync(`${file.path}.part.json`));
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('checks the bytes resumed from a .part file too', withRoot(async (root) => {
+		const server = await serve(rangeServer());
+		try {
+			const file = fileAt(root, server.url);
+			writePartial(file, Buffer.from('XXXXXXXXXX'));
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+
+			// The resumed copy did not match, so it was downloaded again from the start
+			assert.equal(server.requests[0].range, 'bytes=10-');
+			assert.equal(server.requests[1].range, undefined);
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+});
+
+describe('Downloader resuming', () => {
+	it('continues a .part file with a Range request', withRoot(async (root) => {
+		const server = await serve(rangeServer());
+		try {
+			const file = fileAt(root, server.url);
+			writePartial(file, CONTENT.subarray(0, 10));
+			const progress: number[] = [];
+			const downloader = new Downloader();
+			downloader.on('progress', downloaded => progress.push(downloaded));
+			await downloader.downloadFileMultiple([file], CONTENT.length, 1, 5000);
+
+			assert.equal(server.requests.length, 1);
+			assert.equal(server.requests[0].range, 'bytes=10-');
+			assert.equal(server.requests[0]['if-range'], ETAG);
+			assert.equal(progress[0], 10);
+			assert.equal(progress[progress.length - 1], CONTENT.length);
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('starts over when the file changed on the server', withRoot(async (root) => {
+		const server = await serve(rangeServer());
+		try {
+			const file = fileAt(root, server.url);
+			writePartial(file, Buffer.from('old version'), '"v0"');
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+
+			// If-Range did not match, so the server sent the whole file in the same response
+			assert.equal(server.requests.length, 1);
+			assert.equal(server.requests[0]['if-range'], '"v0"');
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('starts over when the server ignores ranges', withRoot(async (root) => {
+		const server = await serve((request, response) => {
+			response.writeHead(200, { ETag: ETAG, 'Content-Length': CONTENT.length });
+			response.end(CONTENT);
+		});
+		try {
+			const file = fileAt(root, server.url);
+			writePartial(file, CONTENT.subarray(0, 10));
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+			assert.equal(server.requests.length, 1);
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('starts over when the range sent is not the one requested', withRoot(async (root) => {
+		const server = await serve((request, response) => {
+			if (request.headers.range) {
+				response.writeHead(206, { ETag: ETAG, 'Content-Range': `bytes 0-${CONTENT.length - 1}/${CONTENT.length}` });
+				response.end(CONTENT);
+				return;
+			}
+			response.writeHead(200, { ETag: ETAG });
+			response.end(CONTENT);
+		});
+		try {
+			const file = fileAt(root, server.url);
+			writePartial(file, CONTENT.subarray(0, 10));
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+			assert.equal(server.requests.length, 2);
+			assert.equal(server.requests[1].range, undefined);
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('downloads the whole file again when the .part file is already complete', withRoot(async (root) => {
+		const server = await serve(rangeServer());
+		try {
+			const file = fileAt(root, server.url);
+			writePartial(file, CONTENT);
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+			assert.equal(server.requests.length, 2);
+			assert.equal(server.requests[0].range, `bytes=${CONTENT.length}-`);
+			assert.equal(server.requests[1].range, undefined);
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+
+	it('resumes a download cancelled midway on the next attempt', withRoot(async (root) => {
+		const handler = rangeServer();
+		let sentHalf: () => void;
+		const halfSent = new Promise<void>(resolve => { sentHalf = resolve; });
+		const server = await serve((request, response, index) => {
+			if (index > 0) return handler(request, response, index);
+			// Send the first half, then stall until the download is cancelled
+			response.writeHead(200, { ETag: ETAG, 'Content-Length': CONTENT.length });
+			response.write(CONTENT.subarray(0, 10), () => sentHalf());
+		});
+		try {
+			const file = fileAt(root, server.url);
+			const controller = new AbortController();
+			const first = new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000, controller.signal);
+			await halfSent;
+			// Let the received bytes reach the .part file
+			while (!fs.existsSync(`${file.path}.part`) || fs.statSync(`${file.path}.part`).size < 10) {
+				await new Promise(resolve => setTimeout(resolve, 10));
+			}
+			controller.abort();
+			await assert.rejects(first, { code: ErrorCodes.DOWNLOAD_INTERRUPTED });
+			assert.ok(fs.existsSync(`${file.path}.part.json`));
+
+			await new Downloader().downloadFileMultiple([file], CONTENT.length, 1, 5000);
+			assert.equal(server.requests[1].range, 'bytes=10-');
+			assertDownloaded(file);
+		} finally {
+			await server.close();
+		}
+	}));
+});
@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import FileStore from '../src/utils/FileStore.js';
+
+const CONTENT = 'library bytes';
+const SHA1 = crypto.createHash('sha1').update(CONTENT).digest('hex');
+
+function withRoot(run: (root: string) => Promise<void>): () => Promise<void> {
+	return async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'));
+		try {
+			await run(root);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	};
+}
+
+/**
+ * Writes a library into a root and adds it to the store.
+ */
+async function addFile(store: FileStore, file: string): Promise<void> {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, CONTENT);
+	await store.add(file);
+}
+
+describe('FileStore', () => {
+	it('links a stored file into another root', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/libraries/lib.jar`);
+		assert.ok(store.has(SHA1, CONTENT.length));
+		assert.ok(!store.has(SHA1, CONTENT.length + 1));
+
+		assert.equal(await store.checkout(SHA1, `${root}/b/libraries/lib.jar`), 'link');
+		assert.equal(fs.statSync(`${root}/b/libraries/lib.jar`).ino, fs.statSync(store.getObjectPath(SHA1)).ino);
+		assert.deepEqual(await store.getReferences(SHA1), [`${root}/a/libraries/lib.jar`, `${root}/b/libraries/lib.jar`]);
+		assert.deepEqual(await store.getStats(), { objects: 1, size: CONTENT.length, references: 2 });
+	}));
+
+	it('returns null for a file it does not have', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		assert.equal(await store.checkout(SHA1, `${root}/b/lib.jar`), null);
+		assert.ok(!fs.existsSync(`${root}/b/lib.jar`));
+	}));
+
+	it('copies the file when it cannot be linked, and keeps the copy referenced', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/lib.jar`);
+
+		const link = fs.linkSync;
+		fs.linkSync = () => {
+			throw Object.assign(new Error('cross-device link not permitted'), { code: 'EXDEV' });
+		};
+		try {
+			assert.equal(await store.checkout(SHA1, `${root}/b/lib.jar`), 'copy');
+		} finally {
+			fs.linkSync = link;
+		}
+		assert.equal(fs.readFileSync(`${root}/b/lib.jar`, 'utf-8'), CONTENT);
+		assert.notEqual(fs.statSync(`${root}/b/lib.jar`).ino, fs.statSync(store.getObjectPath(SHA1)).ino);
+
+		// Only the copy uses the stored file now
+		fs.rmSync(`${root}/a/lib.jar`);
+		assert.deepEqual(await store.gc({ gracePeriod: 0 }), { removed: 0, freed: 0, kept: 1 });
+		assert.deepEqual(await store.getReferences(SHA1), [`${root}/b/lib.jar`]);
+	}));
+
+	it('keeps a referenced file', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/lib.jar`);
+		assert.deepEqual(await store.gc({ gracePeriod: 0 }), { removed: 0, freed: 0, kept: 1 });
+		assert.ok(store.has(SHA1));
+	}));
+
+	it('keeps a file with an unrecorded hard link', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/lib.jar`);
+		fs.rmSync(store.getObjectPath(SHA1).replace('/objects/', '/refs/'));
+		assert.equal((await store.gc({ gracePeriod: 0 })).kept, 1);
+	}));
+
+	it('removes a file nothing uses once the grace period is over', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/lib.jar`);
+		fs.rmSync(`${root}/a/lib.jar`);
+
+		// Within the grace period, a launch may be about to link it
+		assert.deepEqual(await store.gc(), { removed: 0, freed: 0, kept: 1 });
+		assert.deepEqual(await store.gc({ gracePeriod: 0 }), { removed: 1, freed: CONTENT.length, kept: 0 });
+		assert.ok(!store.has(SHA1));
+		assert.deepEqual(await store.getStats(), { objects: 0, size: 0, references: 0 });
+	}));
+
+	it('only counts what it would remove on a dry run', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/lib.jar`);
+		fs.rmSync(`${root}/a/lib.jar`);
+
+		assert.deepEqual(await store.gc({ gracePeriod: 0, dryRun: true }), { removed: 1, freed: CONTENT.length, kept: 0 });
+		assert.ok(store.has(SHA1));
+		assert.equal((await store.getStats()).references, 1);
+	}));
+
+	it('replaces an identical root file with a link when adding it', withRoot(async (root) => {
+		const store = new FileStore(`${root}/store`);
+		await addFile(store, `${root}/a/lib.jar`);
+		fs.mkdirSync(`${root}/b`);
+		fs.writeFileSync(`${root}/b/lib.jar`, CONTENT);
+
+		assert.equal(await store.add(`${root}/b/lib.jar`, SHA1), 'link');
+		assert.equal(fs.statSync(`${root}/b/lib.jar`).ino, fs.statSync(store.getObjectPath(SHA1)).ino);
+		assert.equal(fs.statSync(store.getObjectPath(SHA1)).nlink, 3);
+	}));
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Launch from '../src/Launch.js';
+import { ErrorCodes, LaunchError } from '../src/utils/Errors.js';
+
+const VERSION = '1.20.1';
+
+/**
+ * Installs a version with no libraries or assets, whose metadata is only in the
+ * cache, so an offline launch goes as far as starting Java.
+ */
+function installVersion(root: string): void {
+	const client = Buffer.from('client jar');
+	const json = {
+		id: VERSION,
+		type: 'release',
+		mainClass: 'net.minecraft.client.main.Main',
+		libraries: [],
+		arguments: { game: [], jvm: [] },
+		downloads: {
+			client: { sha1: crypto.createHash('sha1').update(client).digest('hex'), size: client.length, url: 'http://127.0.0.1/client.jar' }
+		},
+		assetIndex: { id: '5', url: 'http://127.0.0.1/5.json' },
+		assets: '5',
+		javaVersion: { majorVersion: 17 }
+	};
+	const manifest = {
+		latest: { release: VERSION, snapshot: VERSION },
+		versions: [{ id: VERSION, type: 'release', url: 'http://127.0.0.1/version.json', time: '', releaseTime: '' }]
+	};
+
+	fs.mkdirSync(`${root}/cache/manifest`, { recursive: true });
+	fs.mkdirSync(`${root}/cache/versions`, { recursive: true });
+	fs.mkdirSync(`${root}/cache/assets`, { recursive: true });
+	fs.mkdirSync(`${root}/versions/${VERSION}`, { recursive: true });
+	fs.writeFileSync(`${root}/cache/manifest/version_manifest_v2.json`, JSON.stringify(manifest));
+	fs.writeFileSync(`${root}/cache/versions/${VERSION}.json`, JSON.stringify(json));
+	fs.writeFileSync(`${root}/cache/assets/5.json`, JSON.stringify({ objects: {} }));
+	fs.writeFileSync(`${root}/versions/${VERSION}/${VERSION}.jar`, client);
+}
+
+const AUTHENTICATOR = { name: 'Player', uuid: '00000000000000000000000000000000', access_token: 'token', user_properties: '{}', meta: { type: 'Mojang' } };
+
+describe('Launch.plan', () => {
+	it('reports the memory sizes without applying them or emitting memory', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'launch-'));
+		try {
+			installVersion(root);
+			const launch = new Launch();
+			const decisions: any[] = [];
+			launch.on('memory', decision => decisions.push(decision));
+
+			const plan = await launch.plan({
+				path: root,
+				version: VERSION,
+				offline: true,
+				authenticator: AUTHENTICATOR,
+				java: { path: `${root}/missing/bin/java`, version: null, type: 'jre' },
+				memory: { min: '1G', max: 'auto' }
+			});
+			assert.equal(plan.memory.min, '1G');
+			assert.match(plan.memory.max, /^\d+[MG]$/);
+			assert.ok(plan.command.arguments.includes(`-Xmx${plan.memory.max}`));
+			assert.deepEqual(decisions, []);
+			assert.deepEqual((launch as any).options.memory, { min: '1G', max: 'auto' });
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('Launch.run', () => {
+	it('rejects when the Java executable does not exist', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'launch-'));
+		try {
+			installVersion(root);
+			const launch = new Launch();
+			await assert.rejects(launch.run({
+				path: root,
+				version: VERSION,
+				offline: true,
+				authenticator: AUTHENTICATOR,
+				java: { path: `${root}/missing/bin/java`, version: null, type: 'jre' }
+			}), (err: any) => err instanceof LaunchError && err.phase === 'spawn' && err.code === ErrorCodes.JAVA_NOT_FOUND);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import MinecraftArguments, { VersionJSON } from '../src/Minecraft/Minecraft-Arguments.js';
+import { ErrorCodes, ValidationError } from '../src/utils/Errors.js';
+
+const CONFIG = '<Configuration status="WARN"></Configuration>';
+
+function versionWithLogging(sha1: string): VersionJSON {
+	return {
+		id: '1.12.2',
+		logging: {
+			client: {
+				argument: '-Dlog4j.configurationFile=${path}',
+				file: { id: 'client-1.12.xml', sha1, size: CONFIG.length, url: 'http://127.0.0.1/client-1.12.xml' },
+				type: 'log4j2-xml'
+			}
+		}
+	} as VersionJSON;
+}
+
+function withRoot(run: (root: string) => Promise<void>): () => Promise<void> {
+	return async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'arguments-'));
+		try {
+			await run(root);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	};
+}
+
+describe('MinecraftArguments.GetLoggingArgument', () => {
+	const sha1 = crypto.createHash('sha1').update(CONFIG).digest('hex');
+
+	it('points log4j at the verified configuration', withRoot(async (root) => {
+		fs.mkdirSync(`${root}/assets/log_configs`, { recursive: true });
+		fs.writeFileSync(`${root}/assets/log_configs/client-1.12.xml`, CONFIG);
+		const argument = await new MinecraftArguments({ path: root } as any).GetLoggingArgument(versionWithLogging(sha1));
+		assert.equal(argument, `-Dlog4j.configurationFile=${root}/assets/log_configs/client-1.12.xml`);
+	}));
+
+	it('fails when the configuration is missing', withRoot(async (root) => {
+		await assert.rejects(
+			new MinecraftArguments({ path: root } as any).GetLoggingArgument(versionWithLogging(sha1)),
+			(err: any) => err instanceof ValidationError && err.code === ErrorCodes.FILE_NOT_FOUND
+		);
+	}));
+
+	it('fails when the configuration does not match its SHA-1', withRoot(async (root) => {
+		fs.mkdirSync(`${root}/assets/log_configs`, { recursive: true });
+		fs.writeFileSync(`${root}/assets/log_configs/client-1.12.xml`, `${CONFIG}\n`);
+		await assert.rejects(
+			new MinecraftArguments({ path: root } as any).GetLoggingArgument(versionWithLogging(sha1)),
+			(err: any) => err instanceof ValidationError && err.code === ErrorCodes.FILE_CORRUPTED && err.expectedValue === sha1
+		);
+	}));
+
+	it('uses a custom configuration instead, and fails if it does not exist', withRoot(async (root) => {
+		const custom = `${root}/log4j2.xml`;
+		const args = new MinecraftArguments({ path: root, log4jConfig: custom } as any);
+		await assert.rejects(args.GetLoggingArgument(versionWithLogging(sha1)), { code: ErrorCodes.FILE_NOT_FOUND });
+
+		fs.writeFileSync(custom, CONFIG);
+		assert.equal(await args.GetLoggingArgument(versionWithLogging(sha1)), `-Dlog4j.configurationFile=${custom}`);
+	}));
+
+	it('skips the checks when asked to, e.g. for a plan', withRoot(async (root) => {
+		const argument = await new MinecraftArguments({ path: root } as any).GetLoggingArgument(versionWithLogging(sha1), false);
+		assert.equal(argument, `-Dlog4j.configurationFile=${root}/assets/log_configs/client-1.12.xml`);
+	}));
+
+	it('adds nothing for versions without a logging configuration', withRoot(async (root) => {
+		assert.equal(await new MinecraftArguments({ path: root } as any).GetLoggingArgument({ id: '1.6.4' } as VersionJSON), null);
+	}));
+});
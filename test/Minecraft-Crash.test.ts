@@ -0,0 +1,293 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import CrashAnalyzer, { CrashReport } from '../src/Minecraft/Minecraft-Crash.js';
+import { ErrorCodes } from '../src/utils/Errors.js';
+
+interface Fixture {
+	crashReport?: string;
+	jvmErrorLog?: string;
+	output?: string;
+}
+
+/**
+ * Leaves the files of a crashed game in a temporary game directory and analyzes them.
+ */
+async function analyze(fixture: Fixture): Promise<CrashReport> {
+	const gameDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'crash-'));
+	try {
+		if (fixture.crashReport) {
+			fs.mkdirSync(`${gameDirectory}/crash-reports`);
+			fs.writeFileSync(`${gameDirectory}/crash-reports/crash-2026-10-19_12.00.00-client.txt`, fixture.crashReport);
+		}
+		if (fixture.jvmErrorLog) fs.writeFileSync(`${gameDirectory}/hs_err_pid4242.log`, fixture.jvmErrorLog);
+		return await new CrashAnalyzer().analyze({
+			gameDirectory,
+			startTime: Date.now() - 1000,
+			output: fixture.output ? fixture.output.split('\n') : []
+		});
+	} finally {
+		fs.rmSync(gameDirectory, { recursive: true, force: true });
+	}
+}
+
+const FORGE_CRASH = `---- Minecraft Crash Report ----
+// Don't be sad, have a hug! <3
+
+Time: 2026-10-19 12:00:00
+Description: Ticking entity
+
+java.lang.NullPointerException: Cannot invoke "net.minecraft.world.entity.Entity.getX()" because "entity" is null
+	at com.example.examplemod.EntityHandler.tick(EntityHandler.java:42) ~[examplemod-1.2.3.jar%23100!/:?] {re:classloading}
+	at net.minecraft.world.level.Level.guardEntityTick(Level.java:481) ~[client-1.20.1-20230612.114412-srg.jar%23191!/:?] {re:classloading}
+	at net.minecraftforge.eventbus.EventBus.post(EventBus.java:315) ~[eventbus-6.0.5.jar%2387!/:?] {}
+
+
+A detailed walkthrough of the error, its code path and all known details is as follows:
+---------------------------------------------------------------------------------------
+
+-- Head --
+Thread: Server thread
+Suspected Mod:
+	Example Mod (examplemod), Version: 1.2.3
+		Issue tracker URL: https://example.com/issues
+		at TRANSFORMER/examplemod@1.2.3/com.example.examplemod.EntityHandler.tick(EntityHandler.java:42)
+Stacktrace:
+	at com.example.examplemod.EntityHandler.tick(EntityHandler.java:42) ~[examplemod-1.2.3.jar%23100!/:?] {re:classloading}
+
+-- System Details --
+Details:
+	Minecraft Version: 1.20.1
+	Java Version: 17.0.8, Eclipse Adoptium
+	Suspected Mods: NONE
+`;
+
+const HS_ERR_HEADER = `#
+# A fatal error has been detected by the Java Runtime Environment:
+#
+#  EXCEPTION_ACCESS_VIOLATION (0xc0000005) at pc=0x00007ffb1a2b3c4d, pid=4242, tid=5151
+#
+# JRE version: OpenJDK Runtime Environment Temurin-17.0.8+7 (17.0.8+7) (build 17.0.8+7)
+# Java VM: OpenJDK 64-Bit Server VM Temurin-17.0.8+7 (17.0.8+7, mixed mode, tiered, compressed oops, compressed class ptrs, g1 gc, windows-amd64)
+`;
+
+describe('CrashAnalyzer signatures', () => {
+	it('detects running out of heap', async () => {
+		const report = await analyze({
+			output: [
+				'[12:00:00] [Render thread/ERROR]: Reported exception thrown!',
+				'java.lang.OutOfMemoryError: Java heap space',
+				'\tat java.base/java.util.Arrays.copyOf(Arrays.java:3537)'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'out_of_memory');
+		assert.equal(report.code, ErrorCodes.OUT_OF_MEMORY);
+		assert.equal(report.exception.type, 'java.lang.OutOfMemoryError');
+		assert.equal(report.exception.message, 'Java heap space');
+	});
+
+	it('detects running out of native memory from the JVM error log', async () => {
+		const report = await analyze({
+			jvmErrorLog: [
+				'#',
+				'# There is insufficient memory for the Java Runtime Environment to continue.',
+				'# Native memory allocation (mmap) failed to map 266338304 bytes for G1 virtual space',
+				'# Possible reasons:'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'out_of_memory');
+		assert.match(report.files.jvmErrorLog, /hs_err_pid4242\.log$/);
+	});
+
+	it('detects a game compiled for a newer Java, with both versions', async () => {
+		const report = await analyze({
+			output: [
+				'Error: LinkageError occurred while loading main class net.minecraft.client.main.Main',
+				'\tjava.lang.UnsupportedClassVersionError: net/minecraft/client/main/Main has been compiled by a more recent version of the Java Runtime (class file version 65.0), this version of the Java Runtime only recognizes class file versions up to 61.0'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'java_version_mismatch');
+		assert.equal(report.code, ErrorCodes.JAVA_VERSION_INCOMPATIBLE);
+		assert.deepEqual(report.javaVersion, { required: 21, actual: 17 });
+	});
+
+	it('detects a Java version Fabric reports as a missing dependency', async () => {
+		const report = await analyze({
+			output: [
+				'net.fabricmc.loader.impl.FormattedException: Mod resolution encountered an incompatible mod set!',
+				'Unmet dependency listing:',
+				"\t - Mod 'Minecraft' (minecraft) 1.20.5 requires version 21 or later of java, which is missing!"
+			].join('\n')
+		});
+		assert.equal(report.cause, 'java_version_mismatch');
+		assert.equal(report.javaVersion.required, 21);
+	});
+
+	it('detects JVM arguments Java refuses', async () => {
+		const report = await analyze({
+			output: [
+				"Unrecognized VM option 'UseZGC2'",
+				'Error: Could not create the Java Virtual Machine.',
+				'Error: A fatal exception has occurred. Program will exit.'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'invalid_jvm_arguments');
+		assert.equal(report.code, ErrorCodes.LAUNCH_FAILED);
+	});
+
+	it('detects missing natives', async () => {
+		const report = await analyze({
+			output: [
+				'[LWJGL] Failed to load a library. Possible solutions:',
+				'Exception in thread "Render thread" java.lang.UnsatisfiedLinkError: Failed to locate library: liblwjgl.so',
+				'\tat org.lwjgl.system.Library.loadSystem(Library.java:164)'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'missing_natives');
+		assert.equal(report.code, ErrorCodes.NATIVES_MISSING);
+		assert.deepEqual(report.exception.stack, ['org.lwjgl.system.Library.loadSystem(Library.java:164)']);
+	});
+
+	it('detects an OpenGL context the driver cannot create', async () => {
+		const report = await analyze({
+			output: [
+				'[12:00:00] [Render thread/ERROR]: GLFW error during init: [0x10007]65543',
+				'org.lwjgl.LWJGLException: Pixel format not accelerated'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'graphics_driver');
+		assert.equal(report.code, ErrorCodes.GRAPHICS_DRIVER_ERROR);
+	});
+
+	it('blames the graphics driver rather than the JVM for a crash in a driver frame', async () => {
+		const report = await analyze({
+			jvmErrorLog: `${HS_ERR_HEADER}# Problematic frame:\n# C  [atio6axx.dll+0x1f2e3d]\n#\n`
+		});
+		assert.equal(report.cause, 'graphics_driver');
+		assert.equal(report.problematicFrame, 'C  [atio6axx.dll+0x1f2e3d]');
+	});
+
+	it('detects a missing mod dependency on Fabric', async () => {
+		const report = await analyze({
+			output: [
+				'net.fabricmc.loader.impl.FormattedException: Mod resolution encountered an incompatible mod set!',
+				'A potential solution has been determined:',
+				'\t - Install sodium, any version.',
+				'Unmet dependency listing:',
+				"\t - Mod 'Sodium Extra' (sodium-extra) 0.5.1 requires any version of sodium, which is missing!"
+			].join('\n')
+		});
+		assert.equal(report.cause, 'missing_dependency');
+		assert.equal(report.code, ErrorCodes.LOADER_INCOMPATIBLE);
+	});
+
+	it('detects a missing mod dependency on Forge 1.12', async () => {
+		const report = await analyze({
+			output: 'net.minecraftforge.fml.common.MissingModsException: Mod jeresources (Just Enough Resources) requires [jei@[4.15.0,)]'
+		});
+		assert.equal(report.cause, 'missing_dependency');
+	});
+
+	it('detects a missing mod dependency on Forge', async () => {
+		const report = await analyze({
+			output: [
+				'[12:00:00] [main/ERROR] [net.minecraftforge.fml.loading.ModSorter/LOADING]: Missing or unsupported mandatory dependencies:',
+				'\tMod ID: \'architectury\', Requested by: \'rei\', Expected range: \'[9.1.12,)\', Actual version: \'[MISSING]\''
+			].join('\n')
+		});
+		assert.equal(report.cause, 'missing_dependency');
+	});
+
+	it('detects a Mixin that failed to apply and names its mod', async () => {
+		const report = await analyze({
+			output: [
+				'org.spongepowered.asm.mixin.transformer.throwables.MixinTransformerError: An unexpected critical error was encountered',
+				'Caused by: org.spongepowered.asm.mixin.throwables.MixinApplyError: Mixin [sodium.mixins.json:core.WindowMixin] from phase [DEFAULT] in config [sodium.mixins.json] from mod [sodium] FAILED during APPLY'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'mixin_failure');
+		assert.equal(report.code, ErrorCodes.MOD_CRASHED);
+		assert.deepEqual(report.suspectedMods, ['sodium']);
+	});
+
+	it('detects a JVM crash, with its frame and Java version', async () => {
+		const report = await analyze({
+			jvmErrorLog: `${HS_ERR_HEADER}# Problematic frame:\n# V  [jvm.dll+0x3a1b2c]\n#\n`
+		});
+		assert.equal(report.cause, 'jvm_crash');
+		assert.equal(report.code, ErrorCodes.JVM_CRASHED);
+		assert.equal(report.problematicFrame, 'V  [jvm.dll+0x3a1b2c]');
+		assert.deepEqual(report.javaVersion, { required: undefined, actual: 17 });
+	});
+
+	it('checks the signatures in order', async () => {
+		// An OutOfMemoryError in a JVM crash is reported as running out of memory
+		const report = await analyze({
+			jvmErrorLog: `${HS_ERR_HEADER}# Problematic frame:\n# V  [jvm.dll+0x3a1b2c]\n`,
+			output: 'java.lang.OutOfMemoryError: Metaspace'
+		});
+		assert.equal(report.cause, 'out_of_memory');
+	});
+});
+
+describe('CrashAnalyzer crash reports', () => {
+	it('blames the suspected mod of a Forge crash report', async () => {
+		const report = await analyze({ crashReport: FORGE_CRASH });
+		assert.equal(report.cause, 'mod_error');
+		assert.equal(report.code, ErrorCodes.MOD_CRASHED);
+		assert.deepEqual(report.suspectedMods, ['examplemod']);
+		assert.equal(report.summary, 'The game crashed, most likely because of examplemod.');
+		assert.equal(report.description, 'Ticking entity');
+		assert.equal(report.exception.type, 'java.lang.NullPointerException');
+		assert.equal(report.exception.stack.length, 3);
+		assert.deepEqual(report.javaVersion, { required: undefined, actual: 17 });
+	});
+
+	it('finds mods from the jar names of stack frames, without the game or the loader', async () => {
+		const report = await analyze({
+			crashReport: [
+				'Description: Rendering overlay',
+				'',
+				'java.lang.IllegalStateException: Not building!',
+				'\tat com.mojang.blaze3d.vertex.BufferBuilder.end(BufferBuilder.java:112) ~[client-1.20.1-20230612.114412-srg.jar%23191!/:?]',
+				'\tat me.jellysquid.mods.sodium.client.Renderer.draw(Renderer.java:64) ~[sodium-forge-0.5.3.jar%23150!/:?]',
+				'\tat net.minecraftforge.client.ForgeHooksClient.draw(ForgeHooksClient.java:90) ~[forge-1.20.1-47.1.0-universal.jar%23195!/:?]'
+			].join('\n')
+		});
+		assert.deepEqual(report.suspectedMods, ['sodium-forge']);
+	});
+
+	it('ignores lines that only look like known causes', async () => {
+		// Mods print such lines during normal play; they say nothing about the crash
+		const report = await analyze({
+			crashReport: FORGE_CRASH,
+			output: [
+				'[12:00:00] [main/INFO]: Mod examplemod requires a restart to apply its new settings',
+				'[12:00:00] [main/WARN]: Feature "fast math" requires Java 21, disabling it'
+			].join('\n')
+		});
+		assert.equal(report.cause, 'mod_error');
+		assert.deepEqual(report.javaVersion, { required: undefined, actual: 17 });
+	});
+
+	it('ignores files left by earlier crashes', async () => {
+		const gameDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'crash-'));
+		try {
+			fs.mkdirSync(`${gameDirectory}/crash-reports`);
+			const old = `${gameDirectory}/crash-reports/crash-2026-10-18_12.00.00-client.txt`;
+			fs.writeFileSync(old, FORGE_CRASH);
+			const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+			fs.utimesSync(old, yesterday, yesterday);
+
+			const report = await new CrashAnalyzer().analyze({ gameDirectory, startTime: Date.now() - 1000, output: ['Process exited'] });
+			assert.equal(report.files.crashReport, undefined);
+			assert.equal(report.cause, 'unknown');
+			assert.equal(report.code, ErrorCodes.PROCESS_CRASHED);
+			assert.deepEqual(report.logTail, ['Process exited']);
+		} finally {
+			fs.rmSync(gameDirectory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getJvmPresets, mergeJvmArguments, resolveJvmPreset } from '../src/Minecraft/Minecraft-JvmPresets.js';
+
+describe('mergeJvmArguments', () => {
+	it('replaces memory settings, whatever their size', () => {
+		assert.deepEqual(
+			mergeJvmArguments(['-Xms1G', '-Xmx2G', '-Dfile.encoding=UTF-8'], ['-Xmx4096M']),
+			['-Xms1G', '-Dfile.encoding=UTF-8', '-Xmx4096M']
+		);
+	});
+
+	it('replaces -XX flags by name, whether boolean or valued', () => {
+		assert.deepEqual(
+			mergeJvmArguments(['-XX:MaxGCPauseMillis=50', '-XX:+AlwaysPreTouch'], ['-XX:MaxGCPauseMillis=200', '-XX:-AlwaysPreTouch']),
+			['-XX:MaxGCPauseMillis=200', '-XX:-AlwaysPreTouch']
+		);
+	});
+
+	it('replaces system properties by name', () => {
+		assert.deepEqual(
+			mergeJvmArguments(['-Dlog4j2.formatMsgNoLookups=true', '-Dfml.ignorePatchDiscrepancies=true'], ['-Dlog4j2.formatMsgNoLookups=false']),
+			['-Dfml.ignorePatchDiscrepancies=true', '-Dlog4j2.formatMsgNoLookups=false']
+		);
+	});
+
+	it('drops the previous collector and its tuning flags when another one is chosen', () => {
+		const base = ['-XX:+UnlockExperimentalVMOptions', '-XX:+UseG1GC', '-XX:G1NewSizePercent=20', '-XX:MaxGCPauseMillis=50', '-XX:G1HeapRegionSize=32M'];
+		assert.deepEqual(
+			mergeJvmArguments(base, ['-XX:+UseZGC', '-XX:+ZGenerational']),
+			['-XX:+UnlockExperimentalVMOptions', '-XX:MaxGCPauseMillis=50', '-XX:+UseZGC', '-XX:+ZGenerational']
+		);
+	});
+
+	it('keeps collector tuning flags when the same collector is chosen again', () => {
+		assert.deepEqual(
+			mergeJvmArguments(['-XX:+UseG1GC', '-XX:G1ReservePercent=20'], ['-XX:+UseG1GC']),
+			['-XX:G1ReservePercent=20', '-XX:+UseG1GC']
+		);
+	});
+
+	it('keeps ParallelRefProcEnabled, which is not a Parallel GC flag', () => {
+		assert.deepEqual(
+			mergeJvmArguments(['-XX:+UseParallelGC', '-XX:ParallelGCThreads=4', '-XX:+ParallelRefProcEnabled'], ['-XX:+UseG1GC']),
+			['-XX:+ParallelRefProcEnabled', '-XX:+UseG1GC']
+		);
+	});
+
+	it('drops exact duplicates of other arguments and keeps different ones', () => {
+		assert.deepEqual(
+			mergeJvmArguments(['-server', '-javaagent:a.jar'], ['-server', '-javaagent:b.jar']),
+			['-javaagent:a.jar', '-server', '-javaagent:b.jar']
+		);
+	});
+
+	it('does not change its inputs', () => {
+		const base = ['-Xmx2G'];
+		const extra = ['-Xmx4G'];
+		mergeJvmArguments(base, extra);
+		assert.deepEqual(base, ['-Xmx2G']);
+		assert.deepEqual(extra, ['-Xmx4G']);
+	});
+});
+
+describe('resolveJvmPreset', () => {
+	it('returns null for an unknown preset', () => {
+		assert.equal(resolveJvmPreset('turbo', 17), null);
+	});
+
+	it('falls back to an older preset when Java is too old', () => {
+		const resolution = resolveJvmPreset('zgc-generational', 17);
+		assert.equal(resolution.requested, 'zgc-generational');
+		assert.equal(resolution.name, 'aikar');
+		assert.equal(resolution.warnings.length, 1);
+		assert.ok(resolution.flags.includes('-XX:+UseG1GC'));
+	});
+
+	it('drops the flags a Java version no longer accepts', () => {
+		const resolution = resolveJvmPreset('zgc-generational', 23);
+		assert.deepEqual(resolution.dropped, ['-XX:+ZGenerational']);
+		assert.ok(!resolution.flags.includes('-XX:+ZGenerational'));
+		assert.ok(resolveJvmPreset('zgc-generational', 21).flags.includes('-XX:+ZGenerational'));
+	});
+
+	it('has a resolvable preset for every name', () => {
+		for (const preset of getJvmPresets()) {
+			assert.ok(resolveJvmPreset(preset.name, 21), preset.name);
+		}
+	});
+});
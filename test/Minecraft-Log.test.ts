@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import GameLogParser, { LogBuffer, LogRecord } from '../src/Minecraft/Minecraft-Log.js';
+
+function parse(...chunks: string[]): LogRecord[] {
+	const parser = new GameLogParser('stdout');
+	const records: LogRecord[] = [];
+	parser.on('record', (record: LogRecord) => records.push(record));
+	for (const chunk of chunks) parser.write(chunk);
+	parser.end();
+	return records;
+}
+
+function record(message: string, level: LogRecord['level'] = 'INFO', timestamp: number | null = null): LogRecord {
+	return { timestamp, thread: 'main', level, logger: null, message, stream: 'stdout', raw: message };
+}
+
+describe('GameLogParser', () => {
+	it('parses the vanilla console layout', () => {
+		const [entry] = parse('[12:34:56] [Render thread/INFO]: Setting user: Player\n');
+		assert.equal(entry.thread, 'Render thread');
+		assert.equal(entry.level, 'INFO');
+		assert.equal(entry.logger, null);
+		assert.equal(entry.message, 'Setting user: Player');
+		assert.equal(entry.stream, 'stdout');
+
+		const time = new Date(entry.timestamp);
+		assert.deepEqual([time.getHours(), time.getMinutes(), time.getSeconds()], [12, 34, 56]);
+	});
+
+	it('parses the Forge layout with a date and a logger', () => {
+		const [entry] = parse('[19Oct2026 12:00:00.123] [main/INFO] [cpw.mods.modlauncher.Launcher/MODLAUNCHER]: ModLauncher running\n');
+		assert.equal(entry.logger, 'cpw.mods.modlauncher.Launcher');
+		assert.equal(entry.message, 'ModLauncher running');
+
+		const time = new Date(entry.timestamp);
+		assert.deepEqual([time.getFullYear(), time.getMonth(), time.getDate()], [2026, 9, 19]);
+		assert.equal(time.getMilliseconds(), 123);
+	});
+
+	it('parses the Fabric layout and maps WARNING to WARN', () => {
+		const [entry] = parse('[12:00:00] [main/WARNING] (FabricLoader) Mod resolution warning\n');
+		assert.equal(entry.level, 'WARN');
+		assert.equal(entry.logger, 'FabricLoader');
+		assert.equal(entry.message, 'Mod resolution warning');
+	});
+
+	it('joins lines split across chunks', () => {
+		const records = parse('[12:00:00] [main/INF', 'O]: first\n[12:00:01] [main/ERROR]: sec', 'ond\n');
+		assert.deepEqual(records.map(entry => [entry.level, entry.message]), [['INFO', 'first'], ['ERROR', 'second']]);
+	});
+
+	it('attaches stack traces to the previous entry', () => {
+		const [entry, next] = parse(
+			'[12:00:00] [Render thread/ERROR]: Failed to load\r\n',
+			'java.lang.IllegalStateException: broken\r\n',
+			'\tat net.minecraft.Main.main(Main.java:1)\r\n',
+			'[12:00:01] [Render thread/INFO]: Stopping!\r\n'
+		);
+		assert.equal(entry.message, 'Failed to load');
+		assert.equal(entry.throwable, 'java.lang.IllegalStateException: broken\n\tat net.minecraft.Main.main(Main.java:1)');
+		assert.equal(next.message, 'Stopping!');
+	});
+
+	it('keeps lines that are not stack traces in the message', () => {
+		const [entry] = parse('[12:00:00] [main/INFO]: Mods:\n\t- minecraft 1.20.1\n');
+		assert.equal(entry.message, 'Mods:\n\t- minecraft 1.20.1');
+		assert.equal(entry.throwable, undefined);
+	});
+
+	it('parses log4j XML events', () => {
+		const [entry] = parse(
+			'<log4j:Event logger="net.minecraft.client.Minecraft" timestamp="1700000000000" level="WARN" thread="Render thread">\n',
+			'  <log4j:Message><![CDATA[Missing sound]]></log4j:Message>\n',
+			'  <log4j:Throwable><![CDATA[java.io.IOException: gone\n\tat a.b(C.java:1)\n]]></log4j:Throwable>\n',
+			'</log4j:Event>\n'
+		);
+		assert.equal(entry.timestamp, 1700000000000);
+		assert.equal(entry.level, 'WARN');
+		assert.equal(entry.thread, 'Render thread');
+		assert.equal(entry.logger, 'net.minecraft.client.Minecraft');
+		assert.equal(entry.message, 'Missing sound');
+		assert.equal(entry.throwable, 'java.io.IOException: gone\n\tat a.b(C.java:1)');
+	});
+
+	it('reports unformatted output as UNKNOWN', () => {
+		const [entry] = parse('Picked up _JAVA_OPTIONS: -Xmx1G\n');
+		assert.equal(entry.level, 'UNKNOWN');
+		assert.equal(entry.timestamp, null);
+		assert.equal(entry.message, 'Picked up _JAVA_OPTIONS: -Xmx1G');
+	});
+
+	it('parses a last line without a line break on end()', () => {
+		const [entry] = parse('[12:00:00] [main/INFO]: no newline');
+		assert.equal(entry.message, 'no newline');
+	});
+});
+
+describe('LogBuffer', () => {
+	it('keeps only the most recent records, oldest first', () => {
+		const buffer = new LogBuffer(3);
+		for (let i = 0; i < 5; i++) buffer.push(record(`line ${i}`));
+		assert.equal(buffer.size, 3);
+		assert.deepEqual(buffer.query().map(entry => entry.message), ['line 2', 'line 3', 'line 4']);
+	});
+
+	it('filters by level, time and text, then limits', () => {
+		const buffer = new LogBuffer();
+		buffer.push(record('starting', 'INFO', 100));
+		buffer.push(record('missing texture', 'WARN', 200));
+		buffer.push(record('crashed', 'ERROR', 300));
+		buffer.push(record('missing model', 'WARN', 400));
+
+		assert.deepEqual(buffer.query({ level: ['WARN', 'ERROR'] }).map(entry => entry.message), ['missing texture', 'crashed', 'missing model']);
+		assert.deepEqual(buffer.query({ since: 300 }).map(entry => entry.message), ['crashed', 'missing model']);
+		assert.deepEqual(buffer.query({ search: /^missing/ }).map(entry => entry.message), ['missing texture', 'missing model']);
+		assert.deepEqual(buffer.query({ level: 'WARN', limit: 1 }).map(entry => entry.message), ['missing model']);
+		assert.deepEqual(buffer.query({ limit: 0 }), []);
+		assert.deepEqual(buffer.query({ limit: -1 }), []);
+	});
+
+	it('starts over after clear()', () => {
+		const buffer = new LogBuffer(2);
+		buffer.push(record('a'));
+		buffer.push(record('b'));
+		buffer.push(record('c'));
+		buffer.clear();
+		buffer.push(record('d'));
+		assert.equal(buffer.size, 1);
+		assert.deepEqual(buffer.query().map(entry => entry.message), ['d']);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import MemorySizer, { MemorySizingInput } from '../src/Minecraft/Minecraft-Memory.js';
+
+const GB = 1024 * 1024 * 1024;
+
+function compute(input: Partial<MemorySizingInput>) {
+	return new MemorySizer().compute({
+		version: '1.20.1',
+		gameDirectory: '/nonexistent',
+		javaPath: '/nonexistent/bin/java',
+		totalMemory: 16 * GB,
+		freeMemory: 12 * GB,
+		...input
+	});
+}
+
+describe('MemorySizer', () => {
+	it('keeps explicit sizes', () => {
+		const decision = compute({ min: '1G', max: '3G' });
+		assert.equal(decision.min, '1G');
+		assert.equal(decision.max, '3G');
+		assert.equal(decision.automatic, false);
+	});
+
+	it('sizes the heap from the version and the loader', () => {
+		assert.equal(compute({ min: 'auto', max: 'auto', version: '1.12.2' }).max, '1536M');
+		assert.equal(compute({ min: 'auto', max: 'auto', version: '1.16.5' }).max, '2048M');
+		assert.equal(compute({ min: 'auto', max: 'auto', version: '1.20.1' }).max, '3072M');
+		assert.equal(compute({ min: 'auto', max: 'auto', loader: 'forge' }).max, '3584M');
+	});
+
+	it('sets an automatic initial heap to half of the maximum', () => {
+		const decision = compute({ min: 'auto', max: '4G' });
+		assert.equal(decision.min, '2048M');
+		assert.equal(decision.max, '4G');
+	});
+
+	it('defaults a missing min to half of the maximum', () => {
+		assert.equal(compute({ max: 'auto' }).min, '1536M');
+		assert.equal(compute({ max: '4G' }).min, '2048M');
+	});
+
+	it('leaves room for the system and respects the cap', () => {
+		assert.equal(compute({ max: 'auto', loader: 'forge', totalMemory: 4 * GB, freeMemory: 4 * GB }).max, '2560M');
+		assert.equal(compute({ max: 'auto', cap: '2G' }).max, '2048M');
+	});
+
+	it('reads sizes without a unit as bytes, like the JVM', () => {
+		// 2 GB in bytes caps the maximum at 2048 MB; read as megabytes it would not
+		assert.equal(compute({ max: 'auto', cap: String(2 * GB) }).max, '2048M');
+	});
+
+	it('lowers an explicit initial heap above an automatic maximum', () => {
+		const decision = compute({ min: '8G', max: 'auto' });
+		assert.equal(decision.min, '3072M');
+	});
+});
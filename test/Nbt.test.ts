@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { NbtCompound, nbt, parseNbt, readNbtFile, serializeNbt, simplifyNbt, writeNbtFile } from '../src/utils/Nbt.js';
+import { ErrorCodes, ValidationError } from '../src/utils/Errors.js';
+import ServerList from '../src/Instance/ServerList.js';
+
+function everyType(): NbtCompound {
+	return {
+		byte: nbt.byte(-3),
+		short: nbt.short(-1234),
+		int: nbt.int(2147483647),
+		long: nbt.long(-9007199254740993n),
+		float: nbt.float(0.5),
+		double: nbt.double(Math.PI),
+		byteArray: nbt.byteArray([1, -1, 127]),
+		string: nbt.string('Überwelt'),
+		list: nbt.list('string', ['a', 'b']),
+		emptyList: nbt.list('int', []),
+		compound: nbt.compound({ nested: nbt.compound({ deep: nbt.byte(true) }) }),
+		intArray: nbt.intArray([-1, 0, 65536]),
+		longArray: nbt.longArray([1n, -(2n ** 63n)])
+	};
+}
+
+describe('Nbt', () => {
+	it('encodes a compound as the game does', () => {
+		const bytes = serializeNbt({ name: nbt.string('Bananrama') }, 'hello world');
+		assert.equal(bytes.toString('hex'), [
+			'0a', '000b', Buffer.from('hello world').toString('hex'),
+			'08', '0004', Buffer.from('name').toString('hex'), '0009', Buffer.from('Bananrama').toString('hex'),
+			'00'
+		].join(''));
+	});
+
+	it('reads back every tag type unchanged', () => {
+		const file = parseNbt(serializeNbt(everyType(), 'root'));
+		assert.equal(file.name, 'root');
+		assert.equal(file.compression, 'none');
+		assert.deepEqual(file.value, everyType());
+	});
+
+	it('re-encodes a decoded buffer byte for byte', () => {
+		const bytes = serializeNbt(everyType());
+		assert.deepEqual(serializeNbt(parseNbt(bytes).value), bytes);
+	});
+
+	it('detects gzip and zlib compression', () => {
+		const value = { seed: nbt.long(42) };
+		for (const compression of ['gzip', 'zlib'] as const) {
+			const file = parseNbt(serializeNbt(value, '', compression));
+			assert.equal(file.compression, compression);
+			assert.deepEqual(file.value, value);
+		}
+		assert.deepEqual(parseNbt(zlib.gzipSync(serializeNbt(value))).value, value);
+	});
+
+	it('uses modified UTF-8 for NUL and characters outside the BMP', () => {
+		const bytes = serializeNbt({ s: nbt.string('a\u0000\u{1F600}') });
+		// After the root header and the tag name: "a", NUL as two bytes, then the emoji as two 3-byte surrogates
+		assert.equal(bytes.subarray(7, bytes.length - 1).toString('hex'), '0009' + '61' + 'c080' + 'eda0bd' + 'edb880');
+		assert.equal(parseNbt(bytes).value.s.value, 'a\u0000\u{1F600}');
+	});
+
+	it('rejects data that is not NBT', () => {
+		for (const data of [Buffer.from([0x08, 0x00, 0x00]), Buffer.from([0x0a, 0x00]), Buffer.alloc(0)]) {
+			assert.throws(() => parseNbt(data), (err: any) => err instanceof ValidationError && err.code === ErrorCodes.FILE_CORRUPTED);
+		}
+	});
+
+	it('simplifies tags to plain values', () => {
+		assert.deepEqual(simplifyNbt(everyType()), {
+			byte: -3,
+			short: -1234,
+			int: 2147483647,
+			long: -9007199254740993n,
+			float: 0.5,
+			double: Math.PI,
+			byteArray: [1, -1, 127],
+			string: 'Überwelt',
+			list: ['a', 'b'],
+			emptyList: [],
+			compound: { nested: { deep: 1 } },
+			intArray: [-1, 0, 65536],
+			longArray: [1n, -(2n ** 63n)]
+		});
+	});
+
+	it('writes and reads files with their compression', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nbt-'));
+		try {
+			const file = `${directory}/level.dat`;
+			await writeNbtFile(file, { Data: nbt.compound({ LevelName: nbt.string('World') }) }, 'gzip');
+			assert.deepEqual(fs.readFileSync(file).subarray(0, 2), Buffer.from([0x1f, 0x8b]));
+			const read = await readNbtFile(file);
+			assert.equal(read.compression, 'gzip');
+			assert.equal(simplifyNbt(read.value).Data.LevelName, 'World');
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
+
+describe('ServerList', () => {
+	it('moves a server given twice to reorder() only once', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'servers-'));
+		try {
+			const servers = new ServerList(root);
+			for (const ip of ['a.example', 'b.example', 'c.example']) await servers.add(null, { ip });
+
+			const reordered = await servers.reorder(null, ['c.example', 'b.example', 'c.example']);
+			assert.deepEqual(reordered.map(server => server.ip), ['c.example', 'b.example', 'a.example']);
+			assert.deepEqual((await servers.list(null)).map(server => server.ip), ['c.example', 'b.example', 'a.example']);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
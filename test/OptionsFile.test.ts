@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import OptionsFile from '../src/Instance/OptionsFile.js';
+
+const MODERN = [
+	'version:3465',
+	'fov:0.0',
+	'lang:en_us',
+	'soundDevice:""',
+	'resourcePacks:["vanilla","file/Faithful.zip"]',
+	'key_key.jump:key.keyboard.space',
+	'soundCategory_master:1.0',
+	'someModOption:keep me',
+	''
+].join('\n');
+
+describe('OptionsFile', () => {
+	it('writes back an unchanged file as it was read', () => {
+		assert.equal(new OptionsFile(null, MODERN).toString(), MODERN);
+
+		const windows = 'version:1343\r\nfov:0.0\r\nnot a pair\r\n';
+		assert.equal(new OptionsFile(null, windows).toString(), windows);
+	});
+
+	it('reads raw, string, number, boolean and list values', () => {
+		const options = new OptionsFile(null, `${MODERN}pauseOnLostFocus:false\n`);
+		assert.equal(options.get('fov'), '0.0');
+		assert.equal(options.getNumber('fov'), 0);
+		assert.equal(options.getNumber('missing'), undefined);
+		assert.equal(options.getString('soundDevice'), '');
+		assert.equal(options.getString('someModOption'), 'keep me');
+		assert.equal(options.getBoolean('pauseOnLostFocus'), false);
+		assert.deepEqual(options.getList('resourcePacks'), ['vanilla', 'file/Faithful.zip']);
+		assert.deepEqual(options.getList('missing'), []);
+		assert.equal(options.dataVersion, 3465);
+	});
+
+	it('keeps the position of changed keys and appends new ones', () => {
+		const options = new OptionsFile(null, MODERN)
+			.set('fov', 0.5)
+			.set('soundDevice', 'Speakers')
+			.set('resourcePacks', ['vanilla'])
+			.set('renderDistance', 12);
+		assert.equal(options.toString(), [
+			'version:3465',
+			'fov:0.5',
+			'lang:en_us',
+			'soundDevice:"Speakers"',
+			'resourcePacks:["vanilla"]',
+			'key_key.jump:key.keyboard.space',
+			'soundCategory_master:1.0',
+			'someModOption:keep me',
+			'renderDistance:12',
+			''
+		].join('\n'));
+	});
+
+	it('deletes keys', () => {
+		const options = new OptionsFile(null, MODERN);
+		assert.equal(options.delete('someModOption'), true);
+		assert.equal(options.delete('someModOption'), false);
+		assert.ok(!options.keys().includes('someModOption'));
+	});
+
+	it('reads and writes key bindings and sound volumes', () => {
+		const options = new OptionsFile(null, MODERN);
+		assert.equal(options.getKeybind('key.jump'), 'key.keyboard.space');
+		options.setKeybind('key.sprint', 'key.keyboard.left.control');
+		assert.deepEqual(options.getKeybinds(), { 'key.jump': 'key.keyboard.space', 'key.sprint': 'key.keyboard.left.control' });
+
+		options.setSoundVolume('music', 1.5);
+		assert.equal(options.getSoundVolume('music'), 1);
+		options.setSoundVolume('music', -1);
+		assert.equal(options.getSoundVolume('music'), 0);
+	});
+
+	it('tells legacy files from their version or their key codes', () => {
+		assert.equal(new OptionsFile(null, 'version:1343\n').legacy, true);
+		assert.equal(new OptionsFile(null, 'version:1519\n').legacy, false);
+		assert.equal(new OptionsFile(null, 'key_key.jump:57\n').legacy, true);
+		assert.equal(new OptionsFile(null, 'key_key.jump:key.keyboard.space\n').legacy, false);
+		// Nothing says the file is old, e.g. a template of defaults
+		assert.equal(new OptionsFile(null, 'fov:0.0\n').legacy, false);
+		assert.equal(new OptionsFile().legacy, false);
+	});
+
+	it('writes the language in the case the game version expects', () => {
+		const modern = new OptionsFile(null, 'version:3465\n');
+		modern.language = 'fr_FR';
+		assert.equal(modern.language, 'fr_fr');
+
+		const oldVersion = new OptionsFile(null, 'version:512\n');
+		oldVersion.language = 'fr_fr';
+		assert.equal(oldVersion.language, 'fr_FR');
+
+		const oldKeys = new OptionsFile(null, 'key_key.jump:57\n');
+		oldKeys.language = 'pt_br';
+		assert.equal(oldKeys.language, 'pt_BR');
+
+		const template = new OptionsFile(null, 'fov:0.0\n');
+		template.language = 'en_US';
+		assert.equal(template.language, 'en_us');
+	});
+
+	it('saves and loads a file', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'options-'));
+		try {
+			const file = `${directory}/nested/options.txt`;
+			const created = await OptionsFile.load(file);
+			assert.deepEqual(created.keys(), []);
+			await created.set('fov', 0.25).save();
+
+			const loaded = await OptionsFile.load(file);
+			assert.equal(loaded.getNumber('fov'), 0.25);
+			assert.equal(fs.readFileSync(file, 'utf-8'), 'fov:0.25\n');
+			assert.ok(!fs.existsSync(`${file}.tmp`));
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ResourcePackManager from '../src/Instance/ResourcePackManager.js';
+import Unzipper from '../src/utils/unzipper.js';
+import Zipper from '../src/utils/zipper.js';
+
+const ICON = Buffer.from('89504e470d0a1a0a', 'hex');
+
+function writePack(file: string, mcmeta: object): void {
+	const zip = new Zipper(file);
+	zip.addFile('pack.mcmeta', Buffer.from(JSON.stringify(mcmeta)));
+	zip.addFile('pack.png', ICON);
+	zip.addFile('assets/minecraft/textures/block/stone.png', Buffer.alloc(64 * 1024, 7));
+	zip.close();
+}
+
+function withRoot(run: (root: string) => Promise<void>): () => Promise<void> {
+	return async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'resourcepacks-'));
+		try {
+			fs.mkdirSync(`${root}/resourcepacks`);
+			await run(root);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	};
+}
+
+/**
+ * Records the files read whole while `run` runs.
+ */
+async function readWhole(run: () => Promise<void>): Promise<string[]> {
+	const read: string[] = [];
+	const readFileSync = fs.readFileSync;
+	fs.readFileSync = ((file: any, ...args: any[]) => {
+		read.push(String(file));
+		return (readFileSync as any)(file, ...args);
+	}) as typeof fs.readFileSync;
+	try {
+		await run();
+	} finally {
+		fs.readFileSync = readFileSync;
+	}
+	return read;
+}
+
+describe('Unzipper.readFiles', () => {
+	it('reads only the named entries', withRoot(async (root) => {
+		const file = `${root}/pack.zip`;
+		writePack(file, { pack: { pack_format: 15, description: 'Test' } });
+
+		const files = Unzipper.readFiles(file, ['pack.png', 'pack.mcmeta', 'missing.txt']);
+		assert.deepEqual([...files.keys()].sort(), ['pack.mcmeta', 'pack.png']);
+		assert.deepEqual(files.get('pack.png'), ICON);
+		assert.deepEqual(JSON.parse(files.get('pack.mcmeta').toString()), { pack: { pack_format: 15, description: 'Test' } });
+	}));
+});
+
+describe('ResourcePackManager', () => {
+	it('reads pack metadata without loading the archives', withRoot(async (root) => {
+		writePack(`${root}/resourcepacks/Faithful.zip`, { pack: { pack_format: 15, description: '§6Faithful §r32x' } });
+		writePack(`${root}/resourcepacks/Old.zip`, { pack: { pack_format: 3, description: 'Old' } });
+		const manager = new ResourcePackManager(root);
+
+		let packs: Awaited<ReturnType<ResourcePackManager['list']>>;
+		const read = await readWhole(async () => {
+			packs = await manager.list(null, '1.20.1');
+		});
+		assert.deepEqual(read.filter(file => file.endsWith('.zip')), []);
+		assert.deepEqual(packs.map(pack => pack.fileName), ['Faithful.zip', 'Old.zip']);
+		assert.equal(packs[0].description, 'Faithful 32x');
+		assert.deepEqual(packs[0].icon, ICON);
+		assert.equal(packs[0].compatibility, 'compatible');
+		assert.equal(packs[1].compatibility, 'too_old');
+	}));
+
+	it('reads only the requested pack in get() and enable()', withRoot(async (root) => {
+		writePack(`${root}/resourcepacks/Faithful.zip`, { pack: { pack_format: 15, description: 'Faithful' } });
+		// Another pack that cannot be read must not get in the way
+		fs.writeFileSync(`${root}/resourcepacks/Broken.zip`, 'not a zip');
+		const manager = new ResourcePackManager(root);
+
+		const read = await readWhole(async () => {
+			await manager.enable(null, 'Faithful.zip', '1.20.1');
+		});
+		assert.ok(!read.some(file => file.endsWith('.zip')));
+
+		const pack = await manager.get(null, 'Faithful.zip', '1.20.1');
+		assert.equal(pack.enabled, true);
+		assert.equal(pack.priority, 0);
+		assert.equal(await manager.get(null, 'Missing.zip'), null);
+		assert.equal(await manager.get(null, '../resourcepacks/Faithful.zip'), null);
+	}));
+});
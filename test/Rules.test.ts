@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateRules, resolveArguments, Rule } from '../src/utils/Index.js';
+
+const currentOs = ({ win32: 'windows', darwin: 'osx', linux: 'linux' } as Record<string, string>)[process.platform];
+const otherOs = currentOs === 'windows' ? 'linux' : 'windows';
+
+describe('evaluateRules', () => {
+	it('allows entries without rules', () => {
+		assert.equal(evaluateRules(undefined), true);
+		assert.equal(evaluateRules([]), true);
+	});
+
+	it('disallows until a rule allows', () => {
+		assert.equal(evaluateRules([{ action: 'allow', os: { name: otherOs } }]), false);
+		assert.equal(evaluateRules([{ action: 'allow', os: { name: currentOs } }]), true);
+	});
+
+	it('lets the last matching rule win', () => {
+		const rules: Rule[] = [
+			{ action: 'allow' },
+			{ action: 'disallow', os: { name: currentOs } }
+		];
+		assert.equal(evaluateRules(rules), false);
+		assert.equal(evaluateRules([rules[1], rules[0]]), true);
+		assert.equal(evaluateRules([{ action: 'allow' }, { action: 'disallow', os: { name: otherOs } }]), true);
+	});
+
+	it('matches the architecture by any of its names', () => {
+		const names: Record<string, string> = { ia32: 'x86', x64: 'amd64', arm: 'arm32', arm64: 'aarch64' };
+		const arch = names[process.arch] ?? process.arch;
+		assert.equal(evaluateRules([{ action: 'allow', os: { arch } }]), true);
+		assert.equal(evaluateRules([{ action: 'allow', os: { arch: 'not-an-arch' } }]), false);
+	});
+
+	it('matches the OS version as a regular expression and skips invalid ones', () => {
+		assert.equal(evaluateRules([{ action: 'allow', os: { version: '.*' } }]), true);
+		assert.equal(evaluateRules([{ action: 'allow', os: { version: '^no-such-release$' } }]), false);
+		assert.equal(evaluateRules([{ action: 'allow', os: { version: '[' } }]), false);
+	});
+
+	it('requires every listed feature to match', () => {
+		const rules: Rule[] = [{ action: 'allow', features: { is_demo_user: true, has_custom_resolution: true } }];
+		assert.equal(evaluateRules(rules), false);
+		assert.equal(evaluateRules(rules, { is_demo_user: true }), false);
+		assert.equal(evaluateRules(rules, { is_demo_user: true, has_custom_resolution: true }), true);
+		assert.equal(evaluateRules([{ action: 'allow', features: { is_quick_play_multiplayer: false } }]), true);
+	});
+});
+
+describe('resolveArguments', () => {
+	it('keeps plain arguments and the values of allowed entries, in order', () => {
+		const args = resolveArguments([
+			'--username',
+			'${auth_player_name}',
+			{ rules: [{ action: 'allow', features: { has_custom_resolution: true } }], value: ['--width', '${resolution_width}'] },
+			{ rules: [{ action: 'allow', os: { name: currentOs } }], value: '-Dos=current' },
+			{ rules: [{ action: 'allow', os: { name: otherOs } }], value: '-Dos=other' },
+			'--version'
+		], { has_custom_resolution: true });
+		assert.deepEqual(args, ['--username', '${auth_player_name}', '--width', '${resolution_width}', '-Dos=current', '--version']);
+	});
+});
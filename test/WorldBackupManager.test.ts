@@ -0,0 +1,152 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import WorldBackupManager, { WorldBackup } from '../src/Instance/WorldBackupManager.js';
+import { ConfigurationError, ErrorCodes } from '../src/utils/Errors.js';
+
+/**
+ * Backups taken at local times, newest first like list() returns them.
+ * 19 October 2026 is a Monday.
+ */
+function backupsAt(...dates: Array<[day: number, hour: number]>): WorldBackup[] {
+	return dates.map(([day, hour]) => {
+		const createdAt = new Date(2026, 9, day, hour).toISOString();
+		return {
+			id: `World/${day}-${hour}`,
+			world: 'World',
+			file: '',
+			createdAt,
+			reason: 'manual',
+			size: 0,
+			fileCount: 0,
+			sha1: '',
+			minecraftVersion: null,
+			loader: null
+		};
+	});
+}
+
+function ids(backups: WorldBackup[]): string[] {
+	return backups.map(backup => backup.id);
+}
+
+function withRoot(run: (root: string) => Promise<void>): () => Promise<void> {
+	return async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'backups-'));
+		try {
+			await run(root);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	};
+}
+
+function createWorld(root: string, folder: string, content: string): void {
+	fs.mkdirSync(`${root}/saves/${folder}/region`, { recursive: true });
+	fs.writeFileSync(`${root}/saves/${folder}/level.dat`, content);
+	fs.writeFileSync(`${root}/saves/${folder}/region/r.0.0.mca`, Buffer.alloc(4096, 1));
+}
+
+describe('WorldBackupManager.selectExpired', () => {
+	const manager = new WorldBackupManager(os.tmpdir());
+
+	it('keeps everything without retention rules', () => {
+		assert.deepEqual(manager.selectExpired(backupsAt([19, 12], [18, 12]), {}), []);
+	});
+
+	it('keeps the most recent backups', () => {
+		const backups = backupsAt([19, 12], [18, 12], [17, 12], [16, 12]);
+		assert.deepEqual(ids(manager.selectExpired(backups, { keepLast: 2 })), ['World/17-12', 'World/16-12']);
+	});
+
+	it('keeps the newest backup of each of the last days with backups', () => {
+		const backups = backupsAt([19, 18], [19, 10], [18, 20], [18, 9], [10, 12]);
+		assert.deepEqual(ids(manager.selectExpired(backups, { daily: 2 })), ['World/19-10', 'World/18-9', 'World/10-12']);
+		// Days without backups do not count
+		assert.deepEqual(ids(manager.selectExpired(backups, { daily: 3 })), ['World/19-10', 'World/18-9']);
+	});
+
+	it('keeps the newest backup of each of the last weeks, starting on Monday', () => {
+		// Monday 19, Sunday 18 and Saturday 17 of the week before, Sunday 11 and Monday 5 of the one before that
+		const backups = backupsAt([19, 12], [18, 12], [17, 12], [11, 12], [5, 12]);
+		assert.deepEqual(ids(manager.selectExpired(backups, { weekly: 2 })), ['World/17-12', 'World/11-12', 'World/5-12']);
+		assert.deepEqual(ids(manager.selectExpired(backups, { weekly: 3 })), ['World/17-12', 'World/5-12']);
+	});
+
+	it('keeps a backup if any rule keeps it', () => {
+		const backups = backupsAt([19, 18], [19, 10], [18, 20], [12, 12], [5, 12]);
+		assert.deepEqual(ids(manager.selectExpired(backups, { keepLast: 2, daily: 1, weekly: 2 })), ['World/12-12', 'World/5-12']);
+	});
+});
+
+describe('WorldBackupManager', () => {
+	it('backs up, verifies and restores a world', withRoot(async (root) => {
+		createWorld(root, 'World', 'original');
+		const manager = new WorldBackupManager(root);
+		const backup = await manager.create(null, 'World', { minecraftVersion: '1.20.1', loader: null });
+		assert.equal(backup.fileCount, 2);
+		assert.deepEqual(await manager.verify(null, backup.id), { valid: true, fileCount: 2, problems: [] });
+
+		fs.writeFileSync(`${root}/saves/World/level.dat`, 'changed');
+		fs.writeFileSync(`${root}/saves/World/extra.txt`, 'new file');
+		assert.equal(await manager.restore(null, backup.id), 'World');
+		assert.equal(fs.readFileSync(`${root}/saves/World/level.dat`, 'utf-8'), 'original');
+		assert.ok(!fs.existsSync(`${root}/saves/World/extra.txt`));
+
+		// The replaced world was backed up first
+		const backups = await manager.list(null, 'World');
+		assert.deepEqual(backups.map(entry => entry.reason).sort(), ['before_restore', 'manual']);
+	}));
+
+	it('restores as another world', withRoot(async (root) => {
+		createWorld(root, 'World', 'original');
+		const manager = new WorldBackupManager(root);
+		const backup = await manager.create(null, 'World', { minecraftVersion: null, loader: null });
+
+		assert.equal(await manager.restore(null, backup.id, { folder: 'World copy' }), 'World copy');
+		assert.equal(fs.readFileSync(`${root}/saves/World copy/level.dat`, 'utf-8'), 'original');
+		assert.ok(fs.existsSync(`${root}/saves/World/level.dat`));
+	}));
+
+	it('detects a damaged archive and refuses to restore it', withRoot(async (root) => {
+		createWorld(root, 'World', 'original');
+		const manager = new WorldBackupManager(root);
+		const backup = await manager.create(null, 'World', { minecraftVersion: null, loader: null });
+
+		const archive = fs.readFileSync(backup.file);
+		archive[60] ^= 0xff;
+		fs.writeFileSync(backup.file, archive);
+
+		const verification = await manager.verify(null, backup.id);
+		assert.equal(verification.valid, false);
+		assert.ok(verification.problems.length > 0);
+		await assert.rejects(manager.restore(null, backup.id), { code: ErrorCodes.FILE_CORRUPTED });
+		assert.equal(fs.readFileSync(`${root}/saves/World/level.dat`, 'utf-8'), 'original');
+	}));
+
+	it('rejects folder names outside saves/', withRoot(async (root) => {
+		createWorld(root, 'World', 'original');
+		const manager = new WorldBackupManager(root);
+		const backup = await manager.create(null, 'World', { minecraftVersion: null, loader: null });
+
+		for (const folder of ['../../escaped', 'nested/World', '..']) {
+			await assert.rejects(manager.restore(null, backup.id, { folder }), (err: any) => err instanceof ConfigurationError && err.code === ErrorCodes.INVALID_PATH);
+		}
+		await assert.rejects(manager.create(null, '../World'), { code: ErrorCodes.INVALID_PATH });
+		assert.ok(!fs.existsSync(`${root}/escaped`));
+	}));
+
+	it('prunes the backups the retention rules do not keep', withRoot(async (root) => {
+		createWorld(root, 'World', 'original');
+		const manager = new WorldBackupManager(root);
+		for (let i = 0; i < 3; i++) await manager.create(null, 'World', { minecraftVersion: null, loader: null });
+
+		const deleted = await manager.prune(null, 'World', { keepLast: 1 });
+		assert.equal(deleted.length, 2);
+		const remaining = await manager.list(null, 'World');
+		assert.equal(remaining.length, 1);
+		assert.ok(deleted.every(backup => !fs.existsSync(backup.file)));
+	}));
+});